@@ -1,8 +1,17 @@
 import { View } from 'react-native';
 import { Stack } from 'expo-router';
 import BottomNavigation from '@/components/BottomNavigation';
+import { useAuth } from '@/providers/AuthProvider';
+import { useOrderOutboxSync } from '@/hooks/useOrderOutbox';
+import { usePushNotifications } from '@/hooks/usePushNotifications';
 
 export default function AppLayout() {
+  const { profile } = useAuth();
+
+  // Place orders that were queued while offline
+  useOrderOutboxSync(profile?.user_id);
+  usePushNotifications(profile?.user_id);
+
   return (
     <View style={{ flex: 1 }}>
       <Stack screenOptions={{ headerShown: false }} />
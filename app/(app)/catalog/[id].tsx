@@ -0,0 +1,358 @@
+import { View, Text, StyleSheet, ScrollView, Pressable, Platform, RefreshControl, ActivityIndicator } from 'react-native';
+import { ArrowLeft, Package, Tag, Ruler, Calendar, IndianRupee, FileText, Plus, RefreshCw } from 'lucide-react-native';
+import Animated, { FadeIn, FadeInUp } from 'react-native-reanimated';
+import { useState, useCallback } from 'react';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useCatalog } from '@/hooks/useCatalog';
+import { useFavourites } from '@/hooks/useFavourites';
+import FavouriteButton from '@/components/FavouriteButton';
+import PriceChangeBadge from '@/components/PriceChangeBadge';
+import NewOrderModal from '@/components/NewOrderModal';
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+export default function CatalogProduct() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { dealerQuery, productsQuery, loadError } = useCatalog();
+  const [refreshing, setRefreshing] = useState(false);
+  const [showNewOrderModal, setShowNewOrderModal] = useState(false);
+
+  const { favouriteIds, toggleFavourite, error: favouritesError } = useFavourites(dealerQuery.data?.id);
+  const { refetch: refetchDealer } = dealerQuery;
+  const { refetch: refetchProducts } = productsQuery;
+  const product = productsQuery.data?.find(item => item.id === id) ?? null;
+  const loading = (dealerQuery.loading || productsQuery.loading) && !product;
+
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await Promise.all([refetchDealer(), refetchProducts()]);
+    setRefreshing(false);
+  }, [refetchDealer, refetchProducts]);
+
+  const handleBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/catalog' as any);
+    }
+  };
+
+  const renderRow = (icon: React.ReactNode, label: string, value: string, isLast = false) => (
+    <View style={[styles.infoRow, isLast && styles.lastRow]}>
+      {icon}
+      <Text style={styles.infoLabel}>{label}</Text>
+      <Text style={styles.infoValue}>{value}</Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Animated.View entering={FadeIn.duration(300)} style={styles.header}>
+        <Pressable style={styles.backButton} onPress={handleBack}>
+          <ArrowLeft size={24} color="#ffffff" strokeWidth={2.5} />
+        </Pressable>
+        <View style={styles.headerTitleWrapper}>
+          <Text style={styles.headerTitle} numberOfLines={1}>{product?.name || 'Product'}</Text>
+          {product?.category ? <Text style={styles.headerSubtitle}>{product.category}</Text> : null}
+        </View>
+      </Animated.View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            tintColor="#4f46e5"
+            colors={['#4f46e5']}
+            progressBackgroundColor="#ffffff"
+          />
+        }>
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#4f46e5" />
+            <Text style={styles.loadingText}>Loading product...</Text>
+          </View>
+        ) : loadError || !product ? (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{loadError || 'This product is not on your price chart'}</Text>
+            <Pressable style={styles.retryButton} onPress={handleRefresh}>
+              <RefreshCw size={16} color="#ef4444" strokeWidth={2.5} />
+              <Text style={styles.retryText}>Retry</Text>
+            </Pressable>
+          </View>
+        ) : (
+          <>
+            <Animated.View entering={FadeInUp.duration(300)} style={styles.card}>
+              <View style={styles.productHeader}>
+                <View style={styles.productIcon}>
+                  <Package size={24} color="#4f46e5" strokeWidth={2.5} />
+                </View>
+                <View style={styles.productInfo}>
+                  <Text style={styles.productName}>{product.name}</Text>
+                  <View style={styles.priceRow}>
+                    <IndianRupee size={16} color="#4f46e5" strokeWidth={2.5} />
+                    <Text style={styles.priceText}>{product.price_per_unit.toFixed(2)}</Text>
+                    <Text style={styles.priceUnit}>per {product.unit}</Text>
+                  </View>
+                </View>
+                <FavouriteButton
+                  active={favouriteIds.has(product.id)}
+                  onToggle={() => toggleFavourite(product.id)}
+                  size={24}
+                />
+              </View>
+              <PriceChangeBadge product={product} detailed style={styles.priceBadge} />
+              {favouritesError && <Text style={styles.favouritesError}>{favouritesError}</Text>}
+            </Animated.View>
+
+            <Animated.View entering={FadeInUp.delay(100).duration(300)} style={styles.card}>
+              <Text style={styles.cardTitle}>Details</Text>
+              {renderRow(<Tag size={18} color="#64748b" strokeWidth={2.5} />, 'Category', product.category || '—')}
+              {renderRow(<Ruler size={18} color="#64748b" strokeWidth={2.5} />, 'Unit', product.unit)}
+              {renderRow(
+                <Calendar size={18} color="#64748b" strokeWidth={2.5} />,
+                'Price since',
+                formatDate(product.effective_date),
+                !product.expiry_date
+              )}
+              {product.expiry_date && renderRow(
+                <Calendar size={18} color="#64748b" strokeWidth={2.5} />,
+                'Price valid until',
+                formatDate(product.expiry_date),
+                true
+              )}
+            </Animated.View>
+
+            <Animated.View entering={FadeInUp.delay(200).duration(300)} style={styles.card}>
+              <View style={styles.cardTitleRow}>
+                <FileText size={18} color="#64748b" strokeWidth={2.5} />
+                <Text style={styles.cardTitle}>Description</Text>
+              </View>
+              <Text style={product.description ? styles.description : styles.descriptionEmpty}>
+                {product.description || 'No description available.'}
+              </Text>
+            </Animated.View>
+
+            <Pressable style={styles.addButton} onPress={() => setShowNewOrderModal(true)}>
+              <Plus size={20} color="#ffffff" strokeWidth={2.5} />
+              <Text style={styles.addButtonText}>Add to order</Text>
+            </Pressable>
+          </>
+        )}
+      </ScrollView>
+
+      <NewOrderModal
+        visible={showNewOrderModal}
+        initialProduct={product}
+        onClose={() => setShowNewOrderModal(false)}
+        onSuccess={() => {
+          setShowNewOrderModal(false);
+          router.push('/orders' as any);
+        }}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingTop: Platform.OS === 'ios' ? 60 : Platform.OS === 'android' ? 48 : 20,
+    paddingBottom: 20,
+    backgroundColor: '#4f46e5',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  headerTitleWrapper: {
+    flex: 1,
+    gap: 4,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    color: '#e0e7ff',
+    letterSpacing: 0.3,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  loadingContainer: {
+    padding: 40,
+    alignItems: 'center',
+    gap: 12,
+  },
+  loadingText: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  errorContainer: {
+    alignItems: 'center',
+    padding: 16,
+    gap: 12,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#ef4444',
+    textAlign: 'center',
+  },
+  retryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 12,
+    backgroundColor: '#fef2f2',
+  },
+  retryText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  productHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  productIcon: {
+    width: 48,
+    height: 48,
+    borderRadius: 12,
+    backgroundColor: '#eef2ff',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  productInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  productName: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#0f172a',
+    letterSpacing: 0.3,
+  },
+  priceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  priceText: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#4f46e5',
+  },
+  priceUnit: {
+    fontSize: 14,
+    color: '#64748b',
+    marginLeft: 4,
+  },
+  priceBadge: {
+    marginTop: 12,
+  },
+  favouritesError: {
+    fontSize: 13,
+    color: '#ef4444',
+    marginTop: 8,
+  },
+  cardTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#0f172a',
+    letterSpacing: 0.3,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  lastRow: {
+    borderBottomWidth: 0,
+    paddingBottom: 0,
+  },
+  infoLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#64748b',
+  },
+  infoValue: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#0f172a',
+  },
+  description: {
+    fontSize: 14,
+    lineHeight: 21,
+    color: '#334155',
+  },
+  descriptionEmpty: {
+    fontSize: 14,
+    color: '#94a3b8',
+    fontStyle: 'italic',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    height: 52,
+    borderRadius: 16,
+    backgroundColor: '#4f46e5',
+    marginTop: 4,
+  },
+  addButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ffffff',
+    letterSpacing: 0.3,
+  },
+});
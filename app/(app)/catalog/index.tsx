@@ -0,0 +1,435 @@
+import { View, Text, StyleSheet, SectionList, Pressable, Platform, RefreshControl, ActivityIndicator, TextInput } from 'react-native';
+import { BookOpen, Search, ChevronUp, ChevronDown, ChevronRight, Package, IndianRupee, Plus, RefreshCw, X } from 'lucide-react-native';
+import Animated, { FadeInUp } from 'react-native-reanimated';
+import { useState, useMemo, useCallback } from 'react';
+import { useRouter } from 'expo-router';
+import { useCatalog } from '@/hooks/useCatalog';
+import { useProductSearch } from '@/hooks/useProductSearch';
+import type { Product } from '@/lib/api/catalog';
+import PriceChangeBadge from '@/components/PriceChangeBadge';
+import NewOrderModal from '@/components/NewOrderModal';
+
+type SortField = 'name' | 'price';
+
+const SORT_OPTIONS: { field: SortField; label: string }[] = [
+  { field: 'name', label: 'Name' },
+  { field: 'price', label: 'Price' },
+];
+
+const UNCATEGORIZED = 'Other';
+
+interface CategorySection {
+  title: string;
+  data: Product[];
+}
+
+// Categories in alphabetical order with uncategorized products last
+function groupByCategory(products: Product[], sortField: SortField, sortDirection: 'asc' | 'desc'): CategorySection[] {
+  const groups = new Map<string, Product[]>();
+  products.forEach(product => {
+    const category = product.category || UNCATEGORIZED;
+    groups.set(category, [...(groups.get(category) || []), product]);
+  });
+
+  const direction = sortDirection === 'asc' ? 1 : -1;
+  const compare = (a: Product, b: Product) => sortField === 'price'
+    ? (a.price_per_unit - b.price_per_unit) * direction
+    : a.name.localeCompare(b.name) * direction;
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => {
+      if (a === UNCATEGORIZED) return 1;
+      if (b === UNCATEGORIZED) return -1;
+      return a.localeCompare(b);
+    })
+    .map(([title, data]) => ({ title, data: [...data].sort(compare) }));
+}
+
+export default function Catalog() {
+  const router = useRouter();
+  const { dealerQuery, productsQuery, loadError } = useCatalog();
+  const [refreshing, setRefreshing] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [sortField, setSortField] = useState<SortField>('name');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+  const [orderProduct, setOrderProduct] = useState<Product | null>(null);
+
+  const { refetch: refetchDealer } = dealerQuery;
+  const { refetch: refetchProducts } = productsQuery;
+  const products = useMemo(() => productsQuery.data ?? [], [productsQuery.data]);
+  const loading = (dealerQuery.loading || productsQuery.loading) && products.length === 0;
+
+  // While searching, results are listed by relevance instead of by category
+  const isSearching = searchQuery.trim().length > 0;
+  const matches = useProductSearch(products, searchQuery);
+  const sections = useMemo(
+    () => isSearching
+      ? (matches.length > 0 ? [{ title: 'Best matches', data: matches }] : [])
+      : groupByCategory(products, sortField, sortDirection),
+    [isSearching, matches, products, sortField, sortDirection]
+  );
+
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await Promise.all([refetchDealer(), refetchProducts()]);
+    setRefreshing(false);
+  }, [refetchDealer, refetchProducts]);
+
+  const handleSort = (field: SortField) => {
+    if (field === sortField) {
+      setSortDirection(prev => prev === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortField(field);
+      setSortDirection('asc');
+    }
+  };
+
+  const renderProduct = ({ item: product, index }: { item: Product; index: number }) => (
+    <Animated.View entering={FadeInUp.delay(Math.min(index, 10) * 40).duration(300)}>
+      <Pressable style={styles.productCard} onPress={() => router.push(`/catalog/${product.id}` as any)}>
+        <View style={styles.productIcon}>
+          <Package size={20} color="#4f46e5" strokeWidth={2.5} />
+        </View>
+        <View style={styles.productInfo}>
+          <Text style={styles.productName} numberOfLines={2}>{product.name}</Text>
+          <View style={styles.productMeta}>
+            <IndianRupee size={12} color="#4f46e5" strokeWidth={2.5} />
+            <Text style={styles.productPrice}>{product.price_per_unit.toFixed(2)}</Text>
+            <Text style={styles.productUnit}>/ {product.unit}</Text>
+          </View>
+          <PriceChangeBadge product={product} style={styles.productBadge} />
+        </View>
+        <Pressable style={styles.addButton} onPress={() => setOrderProduct(product)} hitSlop={8}>
+          <Plus size={18} color="#ffffff" strokeWidth={2.5} />
+        </Pressable>
+        <ChevronRight size={18} color="#94a3b8" strokeWidth={2.5} />
+      </Pressable>
+    </Animated.View>
+  );
+
+  const renderEmpty = () => {
+    if (loading) {
+      return (
+        <View style={styles.stateContainer}>
+          <ActivityIndicator size="large" color="#4f46e5" />
+          <Text style={styles.stateText}>Loading catalog...</Text>
+        </View>
+      );
+    }
+    if (loadError) {
+      return (
+        <View style={styles.stateContainer}>
+          <Text style={styles.errorText}>{loadError}</Text>
+          <Pressable style={styles.retryButton} onPress={handleRefresh}>
+            <RefreshCw size={16} color="#ef4444" strokeWidth={2.5} />
+            <Text style={styles.retryText}>Retry</Text>
+          </Pressable>
+        </View>
+      );
+    }
+    return (
+      <View style={styles.stateContainer}>
+        <Package size={32} color="#94a3b8" strokeWidth={2.5} />
+        <Text style={styles.stateText}>
+          {isSearching ? 'No products match your search' : 'No products on your price chart'}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.headerContent}>
+          <View style={styles.titleContainer}>
+            <View style={styles.titleIcon}>
+              <BookOpen size={24} color="#ffffff" strokeWidth={2.5} />
+            </View>
+            <View style={styles.titleWrapper}>
+              <Text style={styles.headerTitle}>Catalog</Text>
+              <Text style={styles.headerSubtitle}>
+                {dealerQuery.data?.price_chart?.name || 'Your price chart'}
+              </Text>
+            </View>
+          </View>
+        </View>
+
+        <View style={styles.searchContainer}>
+          <Search size={20} color="#94a3b8" strokeWidth={2.5} />
+          <TextInput
+            placeholder="Search products..."
+            placeholderTextColor="#94a3b8"
+            style={styles.searchInput}
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            autoCorrect={false}
+          />
+          {searchQuery.length > 0 && (
+            <Pressable onPress={() => setSearchQuery('')} hitSlop={8}>
+              <X size={18} color="#94a3b8" strokeWidth={2.5} />
+            </Pressable>
+          )}
+        </View>
+
+        {!isSearching && (
+          <View style={styles.sortRow}>
+            <Text style={styles.sortLabel}>Sort by</Text>
+            {SORT_OPTIONS.map(option => {
+              const active = option.field === sortField;
+              return (
+                <Pressable
+                  key={option.field}
+                  style={[styles.sortChip, active && styles.sortChipActive]}
+                  onPress={() => handleSort(option.field)}>
+                  <Text style={[styles.sortChipText, active && styles.sortChipTextActive]}>{option.label}</Text>
+                  {active && (sortDirection === 'asc'
+                    ? <ChevronUp size={14} color="#4f46e5" strokeWidth={2.5} />
+                    : <ChevronDown size={14} color="#4f46e5" strokeWidth={2.5} />)}
+                </Pressable>
+              );
+            })}
+          </View>
+        )}
+      </View>
+
+      <SectionList
+        style={styles.content}
+        contentContainerStyle={styles.listContent}
+        sections={sections}
+        keyExtractor={product => product.id}
+        renderItem={renderProduct}
+        renderSectionHeader={({ section }) => (
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>{section.title}</Text>
+            <Text style={styles.sectionCount}>{section.data.length}</Text>
+          </View>
+        )}
+        ListEmptyComponent={renderEmpty}
+        stickySectionHeadersEnabled={false}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            tintColor="#4f46e5"
+            colors={['#4f46e5']}
+            progressBackgroundColor="#ffffff"
+          />
+        }
+      />
+
+      <NewOrderModal
+        visible={orderProduct !== null}
+        initialProduct={orderProduct}
+        onClose={() => setOrderProduct(null)}
+        onSuccess={() => {
+          setOrderProduct(null);
+          router.push('/orders' as any);
+        }}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    backgroundColor: '#4f46e5',
+    paddingTop: Platform.OS === 'ios' ? 60 : Platform.OS === 'android' ? 48 : 20,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  titleContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingTop: Platform.OS === 'android' ? 4 : 0,
+  },
+  titleIcon: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  titleWrapper: {
+    gap: 4,
+  },
+  headerTitle: {
+    fontSize: 26,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#e0e7ff',
+    letterSpacing: 0.3,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    height: 48,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  searchInput: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#0f172a',
+  },
+  sortRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  sortLabel: {
+    fontSize: 13,
+    color: '#e0e7ff',
+    letterSpacing: 0.2,
+  },
+  sortChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  sortChipActive: {
+    backgroundColor: '#ffffff',
+  },
+  sortChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  sortChipTextActive: {
+    color: '#4f46e5',
+  },
+  content: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+    letterSpacing: 0.2,
+    textTransform: 'uppercase',
+  },
+  sectionCount: {
+    fontSize: 12,
+    color: '#94a3b8',
+  },
+  productCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  productIcon: {
+    width: 44,
+    height: 44,
+    borderRadius: 12,
+    backgroundColor: '#eef2ff',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  productInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  productName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#0f172a',
+    letterSpacing: 0.2,
+  },
+  productMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  productPrice: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4f46e5',
+  },
+  productUnit: {
+    fontSize: 13,
+    color: '#64748b',
+    marginLeft: 2,
+  },
+  productBadge: {
+    marginTop: 2,
+  },
+  addButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#4f46e5',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stateContainer: {
+    padding: 40,
+    alignItems: 'center',
+    gap: 12,
+  },
+  stateText: {
+    fontSize: 14,
+    color: '#64748b',
+    textAlign: 'center',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#ef4444',
+    textAlign: 'center',
+  },
+  retryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 12,
+    backgroundColor: '#fef2f2',
+  },
+  retryText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+});
@@ -1,138 +1,124 @@
-import { View, Text, StyleSheet, ScrollView, Platform, RefreshControl } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, Platform, RefreshControl, Pressable } from 'react-native';
 import { useAuth } from '@/providers/AuthProvider';
-import { Receipt, Wallet, ShoppingCart, Calendar, Search, ChevronDown, ChevronUp, Loader2 } from 'lucide-react-native';
+import { Receipt, Wallet, ShoppingCart, Calendar, Search, ChevronDown, ChevronUp, Loader2, FileText, ChevronRight, Download, X, ShoppingBag, Hash, Plus } from 'lucide-react-native';
+import { useRouter } from 'expo-router';
 import Animated, { FadeInUp } from 'react-native-reanimated';
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import { TextInput } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { fetchDealerFinance, Transaction, DealerBalance } from '@/lib/api/finance';
+import { fetchDealerFinance, Transaction, DealerFinanceData, FinanceFilters } from '@/lib/api/finance';
+import { useQuery } from '@/hooks/useQuery';
+import { fetchOrdersByIds } from '@/lib/api/orders';
+import { getStatusColor } from '@/components/OrderCard';
+import type { Order } from '@/types/orders';
+import { fetchPaymentReports } from '@/lib/api/payments';
+import type { PaymentReport } from '@/types/payments';
+import ReportPaymentModal from '@/components/ReportPaymentModal';
+import PendingPaymentCard from '@/components/PendingPaymentCard';
+import FinanceSummary from '@/components/FinanceSummary';
+import AgeingReport from '@/components/AgeingReport';
+import { buildStatement } from '@/lib/finance-statement';
+import StatementExportSheet from '@/components/StatementExportSheet';
+import FinanceFilterSheet, {
+  getActiveFinanceFilterChips,
+  removeFinanceFilterGroup,
+  type FinanceFilterChipKey,
+} from '@/components/FinanceFilterSheet';
 
 const AnimatedView = Animated.createAnimatedComponent(View);
 
-// Cache keys
-const CACHE_KEYS = {
-  FINANCE: 'finance_cache',
-  LAST_FETCH: 'finance_last_fetch',
-};
+// Refresh the ledger in the background every 5 minutes while the screen is open
+const REFRESH_INTERVAL = 5 * 60 * 1000;
 
-// Cache duration (5 minutes)
-const CACHE_DURATION = 5 * 60 * 1000;
+const SORT_OPTIONS: { field: keyof Transaction; label: string }[] = [
+  { field: 'transaction_date', label: 'Date' },
+  { field: 'amount', label: 'Amount' },
+  { field: 'transaction_type', label: 'Type' },
+];
 
 export default function Finance() {
   const { profile } = useAuth();
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
   const [refreshing, setRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [showExportSheet, setShowExportSheet] = useState(false);
+  const [filters, setFilters] = useState<FinanceFilters>({});
+  const [showFilterSheet, setShowFilterSheet] = useState(false);
+  const [showReportPayment, setShowReportPayment] = useState(false);
+
+  const activeFilterChips = useMemo(() => getActiveFinanceFilterChips(filters), [filters]);
+  const hasActiveFilters = activeFilterChips.length > 0;
   const [sortField, setSortField] = useState<keyof Transaction>('transaction_date');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
-  const [dealerBalance, setDealerBalance] = useState<DealerBalance | null>(null);
-
-  // Load cached data
-  const loadCachedData = useCallback(async () => {
-    try {
-      const lastFetch = await AsyncStorage.getItem(CACHE_KEYS.LAST_FETCH);
-      const now = Date.now();
-      
-      if (lastFetch && now - parseInt(lastFetch) < CACHE_DURATION) {
-        const cachedData = await AsyncStorage.getItem(CACHE_KEYS.FINANCE);
-        if (cachedData) {
-          const parsedData = JSON.parse(cachedData);
-          setTransactions(parsedData.transactions || []);
-          setDealerBalance(parsedData.balance);
-          return true;
-        }
-      }
-      return false;
-    } catch (error) {
-      console.error('Error loading cached data:', error);
-      return false;
-    }
-  }, []);
-
-  // Save data to cache
-  const saveToCache = useCallback(async (transactions: Transaction[], balance: DealerBalance) => {
-    try {
-      await Promise.all([
-        AsyncStorage.setItem(CACHE_KEYS.FINANCE, JSON.stringify({ transactions, balance })),
-        AsyncStorage.setItem(CACHE_KEYS.LAST_FETCH, Date.now().toString())
-      ]);
-    } catch (error) {
-      console.error('Error saving to cache:', error);
-    }
-  }, []);
-
-  // Fetch transactions and balance
-  const fetchData = useCallback(async (forceRefresh = false) => {
-    try {
-      if (!profile?.user_id) {
-        throw new Error('User ID not found');
-      }
-
-      const financeData = await fetchDealerFinance(profile.user_id, forceRefresh);
-      setTransactions(financeData.transactions || []);
-      setDealerBalance(financeData.balance);
-      await saveToCache(financeData.transactions || [], financeData.balance);
-      setError(null);
-    } catch (err) {
-      console.error('Error fetching finance data:', err);
-      setError(err instanceof Error ? err.message : 'Failed to fetch data');
-      setTransactions([]);
-    } finally {
-      setLoading(false);
-    }
-  }, [profile?.user_id, saveToCache]);
 
-  // Initial load and auto-refresh
-  useEffect(() => {
-    let mounted = true;
-    let refreshInterval: NodeJS.Timeout;
-
-    const initializeData = async () => {
-      if (!profile?.user_id) return;
+  // Cached data is shown straight away but always revalidated on page load.
+  // The unfiltered ledger shares its cache entry with the statement screen.
+  const financeQuery = useQuery<DealerFinanceData>({
+    key: profile?.user_id
+      ? { userId: profile.user_id, resource: 'finance', params: hasActiveFilters ? { filters } : undefined }
+      : null,
+    fetcher: () => fetchDealerFinance(profile!.user_id, filters),
+    staleTime: 0,
+    errorMessage: 'Failed to fetch data',
+  });
+  // Exports always cover the full ledger, so fetch it only when one is requested
+  const ledgerQuery = useQuery<DealerFinanceData>({
+    key: profile?.user_id && showExportSheet ? { userId: profile.user_id, resource: 'finance' } : null,
+    fetcher: () => fetchDealerFinance(profile!.user_id),
+    errorMessage: 'Failed to load statement',
+  });
+  const { refetch } = financeQuery;
+  const transactions = useMemo(() => financeQuery.data?.transactions || [], [financeQuery.data]);
+  const dealerBalance = financeQuery.data?.balance ?? null;
+  const loading = financeQuery.loading;
+  const error = financeQuery.error;
+  // Resolve order entries to their orders so they can be shown and opened inline
+  const linkedOrderIds = useMemo(() => Array.from(new Set(
+    transactions
+      .filter(transaction => transaction.transaction_type === 'order' && transaction.reference_id)
+      .map(transaction => transaction.reference_id)
+  )).sort(), [transactions]);
+  const linkedOrdersQuery = useQuery<Order[]>({
+    key: profile?.user_id && dealerBalance && linkedOrderIds.length > 0
+      ? { userId: profile.user_id, resource: 'orders', params: { ids: linkedOrderIds } }
+      : null,
+    fetcher: () => fetchOrdersByIds(dealerBalance!.dealer_id, linkedOrderIds),
+    errorMessage: 'Failed to load linked orders',
+  });
+  // Payments the dealer reported that have not been posted to the ledger
+  const paymentReportsQuery = useQuery<PaymentReport[]>({
+    key: profile?.user_id ? { userId: profile.user_id, resource: 'payment-reports' } : null,
+    fetcher: () => fetchPaymentReports(profile!.user_id),
+    errorMessage: 'Failed to load reported payments',
+  });
+  const { refetch: refetchPaymentReports } = paymentReportsQuery;
+  const paymentReports = paymentReportsQuery.data ?? [];
 
-      try {
-        // First try to load cached data
-        const hasCachedData = await loadCachedData();
-        
-        // Always fetch fresh data on page load
-        if (mounted) {
-          await fetchData(true);
-        }
+  const linkedOrders = useMemo(
+    () => new Map((linkedOrdersQuery.data ?? []).map(order => [order.id, order])),
+    [linkedOrdersQuery.data]
+  );
 
-        // Set up auto-refresh every 5 minutes
-        refreshInterval = setInterval(() => {
-          if (mounted) {
-            fetchData(true);
-          }
-        }, CACHE_DURATION);
-      } catch (error) {
-        console.error('Error in initial load:', error);
-        if (mounted) {
-          setError('Failed to load data');
-          setTransactions([]);
-        }
-      }
-    };
+  const statement = useMemo(
+    () => ledgerQuery.data
+      ? buildStatement(ledgerQuery.data.transactions, ledgerQuery.data.balance?.current_balance ?? null)
+      : null,
+    [ledgerQuery.data]
+  );
 
-    initializeData();
+  // Auto-refresh
+  useEffect(() => {
+    if (!profile?.user_id) return;
 
-    // Cleanup function
-    return () => {
-      mounted = false;
-      if (refreshInterval) {
-        clearInterval(refreshInterval);
-      }
-    };
-  }, [profile?.user_id, loadCachedData, fetchData]);
+    const refreshInterval = setInterval(refetch, REFRESH_INTERVAL);
+    return () => clearInterval(refreshInterval);
+  }, [profile?.user_id, refetch]);
 
   // Handle manual refresh
   const handleRefresh = useCallback(async () => {
     setRefreshing(true);
-    await fetchData(true);
+    await Promise.all([refetch(), refetchPaymentReports()]);
     setRefreshing(false);
-  }, [fetchData]);
+  }, [refetch, refetchPaymentReports]);
 
   const formatCurrency = useCallback((amount: number) => {
     return new Intl.NumberFormat('en-IN', {
@@ -184,6 +170,15 @@ export default function Finance() {
     );
   }, [sortField]);
 
+  const handleApplyFilters = (nextFilters: FinanceFilters) => {
+    setFilters(nextFilters);
+    setShowFilterSheet(false);
+  };
+
+  const handleRemoveFilter = (key: FinanceFilterChipKey) => {
+    setFilters(prev => removeFinanceFilterGroup(prev, key));
+  };
+
   const filteredTransactions = useMemo(() => {
     return transactions
       .filter(transaction =>
@@ -202,6 +197,43 @@ export default function Finance() {
       });
   }, [transactions, searchQuery, sortField, sortDirection]);
 
+  const renderReference = (transaction: Transaction) => {
+    if (transaction.transaction_type === 'order') {
+      const order = linkedOrders.get(transaction.reference_id);
+      if (!order) return null;
+
+      const statusColor = getStatusColor(order.status);
+      return (
+        <Pressable
+          style={styles.linkedOrder}
+          onPress={() => router.push(`/orders/${order.id}` as any)}>
+          <ShoppingBag size={16} color="#4f46e5" strokeWidth={2.5} />
+          <View style={styles.linkedOrderInfo}>
+            <Text style={styles.linkedOrderName} numberOfLines={1}>{order.product_name}</Text>
+            <Text style={styles.linkedOrderQuantity}>Qty: {order.quantity}</Text>
+          </View>
+          <View style={[styles.linkedOrderStatus, { backgroundColor: `${statusColor}15` }]}>
+            <Text style={[styles.linkedOrderStatusText, { color: statusColor }]}>
+              {order.status.toUpperCase()}
+            </Text>
+          </View>
+          <ChevronRight size={16} color="#94a3b8" strokeWidth={2.5} />
+        </Pressable>
+      );
+    }
+
+    if (transaction.transaction_type === 'payment' && transaction.reference_id) {
+      return (
+        <View style={styles.receiptReference}>
+          <Hash size={14} color="#64748b" strokeWidth={2.5} />
+          <Text style={styles.receiptReferenceText}>Receipt {transaction.reference_id}</Text>
+        </View>
+      );
+    }
+
+    return null;
+  };
+
   if (!profile?.user_id) {
     return (
       <View style={styles.errorContainer}>
@@ -223,6 +255,11 @@ export default function Finance() {
               <Text style={styles.headerSubtitle}>View your transaction history</Text>
             </View>
           </View>
+          <Pressable
+            style={styles.exportButton}
+            onPress={() => setShowExportSheet(true)}>
+            <Download size={20} color="#ffffff" strokeWidth={2.5} />
+          </Pressable>
         </View>
 
         <View style={styles.searchContainer}>
@@ -234,6 +271,53 @@ export default function Finance() {
             value={searchQuery}
             onChangeText={setSearchQuery}
           />
+          <Pressable style={styles.filterButton} onPress={() => setShowFilterSheet(true)}>
+            <Text style={styles.filterButtonText}>Filter</Text>
+            {hasActiveFilters ? (
+              <View style={styles.filterCount}>
+                <Text style={styles.filterCountText}>{activeFilterChips.length}</Text>
+              </View>
+            ) : (
+              <ChevronDown size={16} color="#4f46e5" strokeWidth={2.5} />
+            )}
+          </Pressable>
+        </View>
+
+        {hasActiveFilters && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.chipScroller}
+            contentContainerStyle={styles.chipRow}>
+            {activeFilterChips.map(chip => (
+              <Pressable
+                key={chip.key}
+                style={styles.filterChip}
+                onPress={() => handleRemoveFilter(chip.key)}>
+                <Text style={styles.filterChipText}>{chip.label}</Text>
+                <X size={14} color="#ffffff" strokeWidth={2.5} />
+              </Pressable>
+            ))}
+          </ScrollView>
+        )}
+
+        <View style={styles.sortRow}>
+          <Text style={styles.sortLabel}>Sort by</Text>
+          {SORT_OPTIONS.map(option => {
+            const selected = sortField === option.field;
+            const SortIcon = sortDirection === 'asc' ? ChevronUp : ChevronDown;
+            return (
+              <Pressable
+                key={option.field}
+                style={[styles.sortChip, selected && styles.sortChipSelected]}
+                onPress={() => handleSort(option.field)}>
+                <Text style={[styles.sortChipText, selected && styles.sortChipTextSelected]}>
+                  {option.label}
+                </Text>
+                {selected && <SortIcon size={14} color="#4f46e5" strokeWidth={2.5} />}
+              </Pressable>
+            );
+          })}
         </View>
       </View>
 
@@ -267,6 +351,37 @@ export default function Finance() {
                 Last transaction: {formatDate(dealerBalance.last_transaction_date)}
               </Text>
             </View>
+            <Pressable style={styles.balanceAction} onPress={() => router.push('/finance/statement' as any)}>
+              <FileText size={16} color="#4f46e5" strokeWidth={2.5} />
+              <Text style={styles.balanceActionText}>View statement</Text>
+              <ChevronRight size={16} color="#4f46e5" strokeWidth={2.5} />
+            </Pressable>
+            <Pressable style={styles.balanceAction} onPress={() => setShowReportPayment(true)}>
+              <Plus size={16} color="#4f46e5" strokeWidth={2.5} />
+              <Text style={styles.balanceActionText}>Report a payment</Text>
+              <ChevronRight size={16} color="#4f46e5" strokeWidth={2.5} />
+            </Pressable>
+          </View>
+        )}
+
+        {!hasActiveFilters && transactions.length > 0 && (
+          <>
+            <AgeingReport
+              transactions={transactions}
+              orders={linkedOrders}
+              onOrderPress={orderId => router.push(`/orders/${orderId}` as any)}
+            />
+            <FinanceSummary transactions={transactions} orders={linkedOrders} />
+          </>
+        )}
+
+        {paymentReports.length > 0 && (
+          <View style={styles.pendingSection}>
+            <Text style={styles.sectionTitle}>Reported payments</Text>
+            {paymentReports.map(report => (
+              <PendingPaymentCard key={report.id} report={report} />
+            ))}
+            <Text style={styles.sectionTitle}>Posted transactions</Text>
           </View>
         )}
 
@@ -278,7 +393,7 @@ export default function Finance() {
         ) : error ? (
           <View style={styles.errorContainer}>
             <Text style={styles.errorText}>{error}</Text>
-            <Text style={styles.retryText} onPress={() => fetchData(true)}>
+            <Text style={styles.retryText} onPress={refetch}>
               Tap to retry
             </Text>
           </View>
@@ -317,10 +432,31 @@ export default function Finance() {
                 </Text>
               </View>
               <Text style={styles.transactionDescription}>{transaction.description}</Text>
+              {renderReference(transaction)}
             </AnimatedView>
           ))
         )}
       </ScrollView>
+
+      <StatementExportSheet
+        visible={showExportSheet}
+        statement={statement}
+        account={ledgerQuery.data?.balance ?? null}
+        onClose={() => setShowExportSheet(false)}
+      />
+
+      <ReportPaymentModal
+        visible={showReportPayment}
+        onClose={() => setShowReportPayment(false)}
+        onSuccess={refetchPaymentReports}
+      />
+
+      <FinanceFilterSheet
+        visible={showFilterSheet}
+        filters={filters}
+        onClose={() => setShowFilterSheet(false)}
+        onApply={handleApplyFilters}
+      />
     </View>
   );
 }
@@ -356,6 +492,14 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  exportButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   titleWrapper: {
     gap: 4,
   },
@@ -386,6 +530,84 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#0f172a',
   },
+  filterButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingLeft: 12,
+    borderLeftWidth: 1,
+    borderLeftColor: '#e2e8f0',
+  },
+  filterButtonText: {
+    fontSize: 14,
+    color: '#4f46e5',
+    fontWeight: '500',
+  },
+  filterCount: {
+    minWidth: 20,
+    height: 20,
+    borderRadius: 10,
+    paddingHorizontal: 6,
+    backgroundColor: '#4f46e5',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  filterCountText: {
+    fontSize: 12,
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  chipScroller: {
+    marginTop: 12,
+  },
+  chipRow: {
+    gap: 8,
+  },
+  filterChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  filterChipText: {
+    fontSize: 13,
+    color: '#ffffff',
+    fontWeight: '500',
+  },
+  sortRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  sortLabel: {
+    fontSize: 13,
+    color: '#e0e7ff',
+  },
+  sortChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  sortChipSelected: {
+    backgroundColor: '#ffffff',
+  },
+  sortChipText: {
+    fontSize: 13,
+    color: '#ffffff',
+    fontWeight: '500',
+  },
+  sortChipTextSelected: {
+    color: '#4f46e5',
+    fontWeight: '600',
+  },
   content: {
     flex: 1,
     padding: 16,
@@ -429,6 +651,31 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#64748b',
   },
+  balanceAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+  },
+  balanceActionText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4f46e5',
+  },
+  pendingSection: {
+    marginBottom: 4,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+    marginBottom: 12,
+    letterSpacing: 0.2,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -524,4 +771,49 @@ const styles = StyleSheet.create({
     color: '#64748b',
     letterSpacing: 0.2,
   },
+  linkedOrder: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+    padding: 10,
+    borderRadius: 12,
+    backgroundColor: '#f8fafc',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  linkedOrderInfo: {
+    flex: 1,
+  },
+  linkedOrderName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0f172a',
+  },
+  linkedOrderQuantity: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  linkedOrderStatus: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 20,
+  },
+  linkedOrderStatusText: {
+    fontSize: 11,
+    fontWeight: '600',
+    letterSpacing: 0.2,
+  },
+  receiptReference: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 8,
+  },
+  receiptReferenceText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#475569',
+  },
 }); 
\ No newline at end of file
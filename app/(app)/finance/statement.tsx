@@ -0,0 +1,461 @@
+import { useState, useCallback, useMemo } from 'react';
+import { View, Text, StyleSheet, ScrollView, Pressable, Platform, RefreshControl, ActivityIndicator } from 'react-native';
+import { useRouter } from 'expo-router';
+import { ArrowLeft, CircleCheck as CheckCircle, TriangleAlert as AlertTriangle, ArrowDownUp, Receipt, Download } from 'lucide-react-native';
+import Animated, { FadeIn, FadeInUp } from 'react-native-reanimated';
+import { useAuth } from '@/providers/AuthProvider';
+import { useQuery } from '@/hooks/useQuery';
+import { fetchDealerFinance, DealerFinanceData } from '@/lib/api/finance';
+import { buildStatement } from '@/lib/finance-statement';
+import StatementExportSheet from '@/components/StatementExportSheet';
+
+function formatCurrency(amount: number) {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR'
+  }).format(amount);
+}
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+function describeCrossing(balance: number) {
+  if (balance > 0) return 'Balance now due';
+  if (balance < 0) return 'Account now in credit';
+  return 'Account settled';
+}
+
+export default function FinanceStatement() {
+  const { profile } = useAuth();
+  const router = useRouter();
+  const [refreshing, setRefreshing] = useState(false);
+  const [showExportSheet, setShowExportSheet] = useState(false);
+
+  // Shares the ledger cached by the finance screen
+  const financeQuery = useQuery<DealerFinanceData>({
+    key: profile?.user_id ? { userId: profile.user_id, resource: 'finance' } : null,
+    fetcher: () => fetchDealerFinance(profile!.user_id),
+    errorMessage: 'Failed to fetch statement',
+  });
+  const { refetch } = financeQuery;
+
+  const statement = useMemo(() => {
+    if (!financeQuery.data) return null;
+    return buildStatement(
+      financeQuery.data.transactions,
+      financeQuery.data.balance?.current_balance ?? null
+    );
+  }, [financeQuery.data]);
+
+  const handleBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/finance');
+    }
+  };
+
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await refetch();
+    setRefreshing(false);
+  }, [refetch]);
+
+  const renderReconciliation = () => {
+    if (!statement) return null;
+
+    if (statement.reportedBalance === null) {
+      return (
+        <View style={[styles.reconcileCard, styles.reconcileWarning]}>
+          <AlertTriangle size={20} color="#b45309" strokeWidth={2.5} />
+          <Text style={[styles.reconcileText, styles.reconcileWarningText]}>
+            Account balance is unavailable, so this statement could not be reconciled.
+          </Text>
+        </View>
+      );
+    }
+
+    if (statement.reconciled) {
+      return (
+        <View style={[styles.reconcileCard, styles.reconcileSuccess]}>
+          <CheckCircle size={20} color="#10b981" strokeWidth={2.5} />
+          <Text style={[styles.reconcileText, styles.reconcileSuccessText]}>
+            Matches your account balance of {formatCurrency(statement.reportedBalance)}
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <View style={[styles.reconcileCard, styles.reconcileError]}>
+        <AlertTriangle size={20} color="#ef4444" strokeWidth={2.5} />
+        <View style={styles.reconcileContent}>
+          <Text style={[styles.reconcileText, styles.reconcileErrorText]}>
+            Statement does not match your account balance
+          </Text>
+          <Text style={styles.reconcileDetail}>
+            Computed {formatCurrency(statement.closingBalance)}, account shows{' '}
+            {formatCurrency(statement.reportedBalance)} (difference {formatCurrency(statement.difference)})
+          </Text>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Animated.View entering={FadeIn.duration(300)} style={styles.header}>
+        <Pressable style={styles.backButton} onPress={handleBack}>
+          <ArrowLeft size={24} color="#ffffff" strokeWidth={2.5} />
+        </Pressable>
+        <View style={styles.headerTitleWrapper}>
+          <Text style={styles.headerTitle}>Statement</Text>
+          <Text style={styles.headerSubtitle}>Running balance by transaction</Text>
+        </View>
+        <Pressable
+          style={styles.headerButton}
+          onPress={() => setShowExportSheet(true)}
+          disabled={!statement}>
+          <Download size={20} color="#ffffff" strokeWidth={2.5} />
+        </Pressable>
+      </Animated.View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            tintColor="#4f46e5"
+            colors={['#4f46e5']}
+            progressBackgroundColor="#ffffff"
+          />
+        }>
+        {financeQuery.error && (
+          <View style={styles.statusContainer}>
+            <Text style={styles.errorText}>{financeQuery.error}</Text>
+            <Text style={styles.retryText} onPress={refetch}>
+              Tap to retry
+            </Text>
+          </View>
+        )}
+
+        {!statement ? (
+          financeQuery.loading && (
+            <View style={styles.statusContainer}>
+              <ActivityIndicator size="large" color="#4f46e5" />
+            </View>
+          )
+        ) : (
+          <>
+            <View style={styles.summaryCard}>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Opening balance</Text>
+                <Text style={styles.summaryValue}>{formatCurrency(statement.openingBalance)}</Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Orders (debits)</Text>
+                <Text style={[styles.summaryValue, styles.debitText]}>+{formatCurrency(statement.totalDebits)}</Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Payments (credits)</Text>
+                <Text style={[styles.summaryValue, styles.creditText]}>-{formatCurrency(statement.totalCredits)}</Text>
+              </View>
+              <View style={[styles.summaryRow, styles.summaryTotal]}>
+                <Text style={styles.summaryTotalLabel}>Closing balance</Text>
+                <Text style={styles.summaryTotalValue}>{formatCurrency(statement.closingBalance)}</Text>
+              </View>
+            </View>
+
+            {renderReconciliation()}
+
+            {statement.lines.length === 0 ? (
+              <View style={styles.statusContainer}>
+                <Receipt size={48} color="#94a3b8" strokeWidth={2.5} />
+                <Text style={styles.emptyText}>No transactions yet</Text>
+              </View>
+            ) : (
+              statement.lines.map((line, index) => (
+                <Animated.View
+                  key={line.transaction.id}
+                  entering={FadeInUp.duration(300).delay(Math.min(index, 8) * 60)}
+                  style={[styles.lineCard, line.crossedZero && styles.lineCrossed]}>
+                  <View style={styles.lineHeader}>
+                    <View style={styles.lineInfo}>
+                      <Text style={styles.lineDate}>{formatDate(line.transaction.transaction_date)}</Text>
+                      <Text style={styles.lineDescription} numberOfLines={2}>
+                        {line.transaction.description}
+                      </Text>
+                    </View>
+                    <View style={styles.lineAmounts}>
+                      {line.debit > 0 && (
+                        <Text style={[styles.lineAmount, styles.debitText]}>+{formatCurrency(line.debit)}</Text>
+                      )}
+                      {line.credit > 0 && (
+                        <Text style={[styles.lineAmount, styles.creditText]}>-{formatCurrency(line.credit)}</Text>
+                      )}
+                      {line.transaction.transaction_type === 'opening_balance' && (
+                        <Text style={styles.lineAmount}>{formatCurrency(line.transaction.amount)}</Text>
+                      )}
+                    </View>
+                  </View>
+                  <View style={styles.lineFooter}>
+                    {line.crossedZero ? (
+                      <View style={styles.crossingBadge}>
+                        <ArrowDownUp size={12} color="#b45309" strokeWidth={2.5} />
+                        <Text style={styles.crossingText}>{describeCrossing(line.balance)}</Text>
+                      </View>
+                    ) : (
+                      <View />
+                    )}
+                    <Text style={styles.lineBalance}>Balance {formatCurrency(line.balance)}</Text>
+                  </View>
+                </Animated.View>
+              ))
+            )}
+          </>
+        )}
+      </ScrollView>
+
+      <StatementExportSheet
+        visible={showExportSheet}
+        statement={statement}
+        account={financeQuery.data?.balance ?? null}
+        onClose={() => setShowExportSheet(false)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingTop: Platform.OS === 'ios' ? 60 : Platform.OS === 'android' ? 48 : 20,
+    paddingBottom: 20,
+    backgroundColor: '#4f46e5',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  headerTitleWrapper: {
+    flex: 1,
+    gap: 4,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    color: '#e0e7ff',
+    letterSpacing: 0.3,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 100,
+  },
+  statusContainer: {
+    alignItems: 'center',
+    gap: 12,
+    padding: 40,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#ef4444',
+    textAlign: 'center',
+  },
+  retryText: {
+    fontSize: 14,
+    color: '#4f46e5',
+    textDecorationLine: 'underline',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  summaryCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+    gap: 10,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  summaryValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#0f172a',
+  },
+  summaryTotal: {
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+  },
+  summaryTotalLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#0f172a',
+  },
+  summaryTotalValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#4f46e5',
+  },
+  debitText: {
+    color: '#f59e0b',
+  },
+  creditText: {
+    color: '#10b981',
+  },
+  reconcileCard: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 16,
+    borderWidth: 1,
+  },
+  reconcileContent: {
+    flex: 1,
+    gap: 4,
+  },
+  reconcileText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  reconcileDetail: {
+    fontSize: 13,
+    color: '#64748b',
+  },
+  reconcileSuccess: {
+    backgroundColor: '#ecfdf5',
+    borderColor: '#a7f3d0',
+  },
+  reconcileSuccessText: {
+    color: '#047857',
+  },
+  reconcileWarning: {
+    backgroundColor: '#fffbeb',
+    borderColor: '#fef3c7',
+  },
+  reconcileWarningText: {
+    color: '#b45309',
+  },
+  reconcileError: {
+    backgroundColor: '#fef2f2',
+    borderColor: '#fecaca',
+  },
+  reconcileErrorText: {
+    color: '#ef4444',
+  },
+  lineCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  lineCrossed: {
+    borderColor: '#fcd34d',
+    backgroundColor: '#fffbeb',
+  },
+  lineHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+  },
+  lineInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  lineDate: {
+    fontSize: 12,
+    color: '#64748b',
+    letterSpacing: 0.2,
+  },
+  lineDescription: {
+    fontSize: 14,
+    color: '#0f172a',
+  },
+  lineAmounts: {
+    alignItems: 'flex-end',
+  },
+  lineAmount: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#0f172a',
+  },
+  lineFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 10,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+  },
+  crossingBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 20,
+    backgroundColor: '#fef3c7',
+  },
+  crossingText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#b45309',
+  },
+  lineBalance: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4f46e5',
+  },
+});
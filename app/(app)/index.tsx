@@ -1,9 +1,15 @@
 import { View, Text, StyleSheet, ScrollView, Pressable, Image, Platform } from 'react-native';
 import { useAuth } from '@/providers/AuthProvider';
-import { FileText, Clock, Wallet, User } from 'lucide-react-native';
+import { FileText, BookOpen, Clock, Wallet, User } from 'lucide-react-native';
 import Animated, { FadeInUp, FadeInDown } from 'react-native-reanimated';
 import { useRouter } from 'expo-router';
 import { NavItem } from '@/types/routes';
+import { fetchDealerDetails } from '@/lib/api/orders';
+import { useQuery } from '@/hooks/useQuery';
+import { useOrderStatusBanner } from '@/hooks/useOrderChanges';
+import { useProcessingOrders } from '@/hooks/useProcessingOrders';
+import OrderStatusBanner from '@/components/OrderStatusBanner';
+import type { DealerDetails } from '@/types/orders';
 
 const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
 
@@ -11,6 +17,16 @@ export default function Dashboard() {
   const { profile } = useAuth();
   const router = useRouter();
 
+  // Shares the cached dealer record with the new order modal
+  const { data: dealer } = useQuery<DealerDetails>({
+    key: profile?.user_id ? { userId: profile.user_id, resource: 'dealer-details' } : null,
+    fetcher: () => fetchDealerDetails(profile!.user_id),
+  });
+  // Loaded for its statuses: without them a processing order moving on is not recognised
+  // on a cold start, since Realtime updates may not carry the previous status
+  useProcessingOrders();
+  const { transition, dismiss: dismissTransition } = useOrderStatusBanner(dealer?.id);
+
   const navItems: NavItem[] = [
     {
       title: 'Orders',
@@ -20,6 +36,14 @@ export default function Dashboard() {
       color: '#818cf8',
       gradient: ['#818cf8', '#6366f1'],
     },
+    {
+      title: 'Catalog',
+      description: 'Browse your price chart',
+      icon: BookOpen,
+      route: '/catalog',
+      color: '#38bdf8',
+      gradient: ['#38bdf8', '#0ea5e9'],
+    },
     {
       title: 'Processing',
       description: 'Track order processing',
@@ -67,6 +91,14 @@ export default function Dashboard() {
         </View>
 
         <View style={styles.content}>
+          <OrderStatusBanner
+            change={transition}
+            onPress={change => {
+              dismissTransition();
+              router.push(`/orders/${change.order.id}` as any);
+            }}
+            onDismiss={dismissTransition}
+          />
           <View style={styles.navGrid}>
             {navItems.map((item, index) => (
               <AnimatedPressable
@@ -0,0 +1,471 @@
+import { useState, useCallback } from 'react';
+import { View, Text, StyleSheet, ScrollView, Pressable, Platform, RefreshControl, ActivityIndicator, Switch } from 'react-native';
+import { useRouter } from 'expo-router';
+import { ArrowLeft, Bell, Package, Receipt, FileText, CheckCheck, AlertTriangle } from 'lucide-react-native';
+import Animated, { FadeIn, FadeInUp } from 'react-native-reanimated';
+import { useAuth } from '@/providers/AuthProvider';
+import { useQuery } from '@/hooks/useQuery';
+import {
+  fetchNotifications,
+  markNotificationsRead,
+  fetchNotificationPreferences,
+  updateNotificationPreferences,
+  NOTIFICATION_CATEGORIES,
+} from '@/lib/api/notifications';
+import type { AppNotification, NotificationCategory, NotificationPreferences } from '@/types/notifications';
+
+type Tab = 'inbox' | 'settings';
+
+const CATEGORY_DETAILS: Record<NotificationCategory, {
+  title: string;
+  description: string;
+  icon: React.ElementType;
+  color: string;
+}> = {
+  order_status: {
+    title: 'Order status',
+    description: 'When an order is completed or canceled',
+    icon: Package,
+    color: '#4f46e5',
+  },
+  payment: {
+    title: 'Payments',
+    description: 'When a payment is posted to your account',
+    icon: Receipt,
+    color: '#10b981',
+  },
+  price_chart: {
+    title: 'Price chart',
+    description: 'When prices on your chart change',
+    icon: FileText,
+    color: '#f59e0b',
+  },
+};
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export default function Notifications() {
+  const { profile } = useAuth();
+  const router = useRouter();
+  const [tab, setTab] = useState<Tab>('inbox');
+  const [refreshing, setRefreshing] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const userId = profile?.user_id;
+
+  const inboxQuery = useQuery<AppNotification[]>({
+    key: userId ? { userId, resource: 'notifications' } : null,
+    fetcher: () => fetchNotifications(userId!),
+    errorMessage: 'Failed to fetch notifications',
+  });
+  const preferencesQuery = useQuery<NotificationPreferences>({
+    key: userId ? { userId, resource: 'notification-preferences' } : null,
+    fetcher: () => fetchNotificationPreferences(userId!),
+    errorMessage: 'Failed to fetch notification preferences',
+  });
+  const { setData: setInbox, refetch: refetchInbox } = inboxQuery;
+  const { setData: setPreferences, refetch: refetchPreferences } = preferencesQuery;
+
+  const notifications = inboxQuery.data ?? [];
+  const unreadCount = notifications.filter(notification => !notification.read_at).length;
+  const error = actionError || (tab === 'inbox' ? inboxQuery.error : preferencesQuery.error);
+
+  const handleBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/profile');
+    }
+  };
+
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    setActionError(null);
+    await Promise.all([refetchInbox(), refetchPreferences()]);
+    setRefreshing(false);
+  }, [refetchInbox, refetchPreferences]);
+
+  const markRead = async (ids?: string[]) => {
+    if (!userId) return;
+
+    const previous = notifications;
+    const readAt = new Date().toISOString();
+    setInbox(previous.map(notification =>
+      !notification.read_at && (!ids || ids.includes(notification.id))
+        ? { ...notification, read_at: readAt }
+        : notification
+    ));
+
+    try {
+      setActionError(null);
+      await markNotificationsRead(userId, ids);
+    } catch (err) {
+      setInbox(previous);
+      setActionError(err instanceof Error ? err.message : 'Failed to update notifications');
+    }
+  };
+
+  const handleOpen = (notification: AppNotification) => {
+    if (!notification.read_at) {
+      markRead([notification.id]);
+    }
+    if (notification.data?.order_id) {
+      router.push(`/orders/${notification.data.order_id}` as any);
+    } else if (notification.category === 'payment') {
+      router.push('/finance');
+    }
+  };
+
+  const togglePreference = async (category: NotificationCategory, enabled: boolean) => {
+    if (!userId || !preferencesQuery.data) return;
+
+    const previous = preferencesQuery.data;
+    const next = { ...previous, [category]: enabled };
+    setPreferences(next);
+
+    try {
+      setActionError(null);
+      setPreferences(await updateNotificationPreferences(userId, next));
+    } catch (err) {
+      setPreferences(previous);
+      setActionError(err instanceof Error ? err.message : 'Failed to update notification preferences');
+    }
+  };
+
+  const renderInbox = () => {
+    if (inboxQuery.loading && !inboxQuery.data) {
+      return (
+        <View style={styles.statusContainer}>
+          <ActivityIndicator size="large" color="#4f46e5" />
+        </View>
+      );
+    }
+
+    if (notifications.length === 0) {
+      return (
+        <View style={styles.statusContainer}>
+          <Bell size={48} color="#94a3b8" strokeWidth={2.5} />
+          <Text style={styles.statusText}>No notifications yet</Text>
+        </View>
+      );
+    }
+
+    return (
+      <>
+        {unreadCount > 0 && (
+          <Pressable style={styles.markAllButton} onPress={() => markRead()}>
+            <CheckCheck size={16} color="#4f46e5" strokeWidth={2.5} />
+            <Text style={styles.markAllText}>Mark all as read</Text>
+          </Pressable>
+        )}
+        {notifications.map((notification, index) => {
+          const details = CATEGORY_DETAILS[notification.category];
+          return (
+            <Animated.View key={notification.id} entering={FadeInUp.duration(300).delay(Math.min(index, 8) * 60)}>
+              <Pressable
+                style={[styles.notificationCard, !notification.read_at && styles.notificationUnread]}
+                onPress={() => handleOpen(notification)}>
+                <View style={[styles.categoryIcon, { backgroundColor: `${details.color}15` }]}>
+                  <details.icon size={20} color={details.color} strokeWidth={2.5} />
+                </View>
+                <View style={styles.notificationContent}>
+                  <Text style={styles.notificationTitle}>{notification.title}</Text>
+                  <Text style={styles.notificationBody}>{notification.body}</Text>
+                  <Text style={styles.notificationDate}>{formatDate(notification.created_at)}</Text>
+                </View>
+                {!notification.read_at && <View style={styles.unreadDot} />}
+              </Pressable>
+            </Animated.View>
+          );
+        })}
+      </>
+    );
+  };
+
+  const renderSettings = () => {
+    const preferences = preferencesQuery.data;
+    if (!preferences) {
+      return (
+        <View style={styles.statusContainer}>
+          <ActivityIndicator size="large" color="#4f46e5" />
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.settingsCard}>
+        {NOTIFICATION_CATEGORIES.map((category, index) => {
+          const details = CATEGORY_DETAILS[category];
+          return (
+            <View
+              key={category}
+              style={[styles.settingRow, index === NOTIFICATION_CATEGORIES.length - 1 && styles.settingRowLast]}>
+              <View style={[styles.categoryIcon, { backgroundColor: `${details.color}15` }]}>
+                <details.icon size={20} color={details.color} strokeWidth={2.5} />
+              </View>
+              <View style={styles.settingContent}>
+                <Text style={styles.settingTitle}>{details.title}</Text>
+                <Text style={styles.settingDescription}>{details.description}</Text>
+              </View>
+              <Switch
+                value={preferences[category]}
+                onValueChange={enabled => togglePreference(category, enabled)}
+                trackColor={{ false: '#e2e8f0', true: '#a5b4fc' }}
+                thumbColor={preferences[category] ? '#4f46e5' : '#f8fafc'}
+              />
+            </View>
+          );
+        })}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Animated.View entering={FadeIn.duration(300)} style={styles.header}>
+        <Pressable style={styles.backButton} onPress={handleBack}>
+          <ArrowLeft size={24} color="#ffffff" strokeWidth={2.5} />
+        </Pressable>
+        <View style={styles.headerTitleWrapper}>
+          <Text style={styles.headerTitle}>Notifications</Text>
+          <Text style={styles.headerSubtitle}>
+            {unreadCount > 0 ? `${unreadCount} unread` : 'You are all caught up'}
+          </Text>
+        </View>
+      </Animated.View>
+
+      <View style={styles.tabs}>
+        {(['inbox', 'settings'] as Tab[]).map(value => (
+          <Pressable
+            key={value}
+            style={[styles.tab, tab === value && styles.tabActive]}
+            onPress={() => {
+              setTab(value);
+              setActionError(null);
+            }}>
+            <Text style={[styles.tabText, tab === value && styles.tabTextActive]}>
+              {value === 'inbox' ? 'Inbox' : 'Settings'}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            tintColor="#4f46e5"
+            colors={['#4f46e5']}
+            progressBackgroundColor="#ffffff"
+          />
+        }>
+        {error && (
+          <Animated.View entering={FadeIn.duration(300)} style={styles.errorBanner}>
+            <AlertTriangle size={18} color="#ef4444" strokeWidth={2.5} />
+            <Text style={styles.errorBannerText}>{error}</Text>
+          </Animated.View>
+        )}
+
+        {tab === 'inbox' ? renderInbox() : renderSettings()}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingTop: Platform.OS === 'ios' ? 60 : Platform.OS === 'android' ? 48 : 20,
+    paddingBottom: 20,
+    backgroundColor: '#4f46e5',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  headerTitleWrapper: {
+    flex: 1,
+    gap: 4,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    color: '#e0e7ff',
+    letterSpacing: 0.3,
+  },
+  tabs: {
+    flexDirection: 'row',
+    gap: 8,
+    padding: 16,
+    paddingBottom: 0,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  tabActive: {
+    backgroundColor: '#eef2ff',
+    borderColor: '#c7d2fe',
+  },
+  tabText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  tabTextActive: {
+    color: '#4f46e5',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 100,
+  },
+  statusContainer: {
+    alignItems: 'center',
+    gap: 12,
+    padding: 40,
+  },
+  statusText: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  errorBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#fef2f2',
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  errorBannerText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#ef4444',
+  },
+  markAllButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginBottom: 12,
+    borderRadius: 20,
+    backgroundColor: '#eef2ff',
+  },
+  markAllText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4f46e5',
+  },
+  notificationCard: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  notificationUnread: {
+    borderColor: '#c7d2fe',
+  },
+  categoryIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  notificationContent: {
+    flex: 1,
+    gap: 4,
+  },
+  notificationTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#0f172a',
+  },
+  notificationBody: {
+    fontSize: 14,
+    color: '#334155',
+  },
+  notificationDate: {
+    fontSize: 12,
+    color: '#94a3b8',
+  },
+  unreadDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#4f46e5',
+    marginTop: 6,
+  },
+  settingsCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  settingRowLast: {
+    borderBottomWidth: 0,
+  },
+  settingContent: {
+    flex: 1,
+    gap: 2,
+  },
+  settingTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#0f172a',
+  },
+  settingDescription: {
+    fontSize: 13,
+    color: '#64748b',
+  },
+});
@@ -0,0 +1,641 @@
+import { View, Text, StyleSheet, ScrollView, Pressable, Platform, RefreshControl, ActivityIndicator } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useAuth } from '@/providers/AuthProvider';
+import {
+  ArrowLeft,
+  Package,
+  IndianRupee,
+  Calendar,
+  FileText,
+  User,
+  Building2,
+  Hash,
+  Clock,
+  CircleCheck as CheckCircle,
+  CircleX as XCircle,
+  RefreshCw,
+  RotateCcw,
+  Tag,
+} from 'lucide-react-native';
+import Animated, { FadeIn, FadeInUp } from 'react-native-reanimated';
+import { useState, useEffect, useCallback } from 'react';
+import { useQuery } from '@/hooks/useQuery';
+import { fetchOrderById, cancelOrder, rememberOrderStatuses } from '@/lib/api/orders';
+import { fetchDealerByUserId } from '@/lib/api/dealers';
+import CancelOrderModal from '@/components/CancelOrderModal';
+import NewOrderModal from '@/components/NewOrderModal';
+import OrderStatusBanner from '@/components/OrderStatusBanner';
+import { useOrderChanges, useOrderStatusBanner } from '@/hooks/useOrderChanges';
+import type { Order, OrderChange, OrderWithDetails } from '@/types/orders';
+
+interface StatusHistoryEntry {
+  status: Order['status'];
+  label: string;
+  at: string;
+  detail?: string | null;
+}
+
+const STATUS_COLORS: Record<Order['status'], string> = {
+  processing: '#f59e0b',
+  completed: '#10b981',
+  canceled: '#ef4444',
+};
+
+// The orders table keeps no separate audit log, so the history is rebuilt from
+// the row's timestamps: every order is placed as `processing`, and `updated_at`
+// records when it last changed status.
+function getStatusHistory(order: Order): StatusHistoryEntry[] {
+  const history: StatusHistoryEntry[] = [
+    { status: 'processing', label: 'Order placed', at: order.created_at },
+  ];
+
+  if (order.status === 'completed') {
+    history.push({ status: 'completed', label: 'Order completed', at: order.updated_at });
+  } else if (order.status === 'canceled') {
+    history.push({
+      status: 'canceled',
+      label: 'Order canceled',
+      at: order.updated_at,
+      detail: order.cancellation_reason,
+    });
+  }
+
+  return history;
+}
+
+export default function OrderDetail() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { profile } = useAuth();
+  const [refreshing, setRefreshing] = useState(false);
+  const [showCancelModal, setShowCancelModal] = useState(false);
+  const [showReorderModal, setShowReorderModal] = useState(false);
+
+  // Part of the 'orders' resource so cancels and new orders elsewhere refresh it
+  const orderQuery = useQuery<OrderWithDetails>({
+    key: profile?.user_id && id ? { userId: profile.user_id, resource: 'orders', params: { id } } : null,
+    fetcher: async () => {
+      const dealerData = await fetchDealerByUserId(profile!.user_id);
+      return fetchOrderById(id, dealerData.id);
+    },
+    errorMessage: 'Failed to fetch order',
+  });
+  const { data: order, loading, error, refetch: fetchOrder, setData: setOrder } = orderQuery;
+  const dealerId = order?.dealer_id ?? null;
+
+  useEffect(() => {
+    if (order) {
+      rememberOrderStatuses([order]);
+    }
+  }, [order]);
+
+  // Keep this order in sync with Realtime; the joined data does not change with the status
+  useOrderChanges(dealerId, change => {
+    if (order && change.order.id === id) {
+      setOrder({ ...order, ...change.order });
+    }
+  });
+  const { transition, dismiss: dismissTransition } = useOrderStatusBanner(dealerId);
+
+  const openTransitionedOrder = (change: OrderChange) => {
+    dismissTransition();
+    if (change.order.id !== id) {
+      router.push(`/orders/${change.order.id}` as any);
+    }
+  };
+
+  // Handle refresh
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await fetchOrder();
+    setRefreshing(false);
+  }, [fetchOrder]);
+
+  const handleCancelOrder = async (reason: string) => {
+    if (!order || !dealerId) return;
+
+    try {
+      const updatedOrder = await cancelOrder(order.id, dealerId, reason);
+      setOrder({ ...order, ...updatedOrder });
+      setShowCancelModal(false);
+    } catch (err) {
+      // Refresh so the screen reflects whatever status the order has moved on to
+      fetchOrder();
+      throw err;
+    }
+  };
+
+  const handleBack = () => {
+    // Deep links open this screen without anything underneath it in the stack
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/orders');
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const renderRow = (icon: React.ReactNode, label: string, value: string, isLast = false) => (
+    <View style={[styles.infoRow, isLast && styles.lastRow]}>
+      {icon}
+      <Text style={styles.infoLabel}>{label}</Text>
+      <Text style={styles.infoValue}>{value}</Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Animated.View entering={FadeIn.duration(300)} style={styles.header}>
+        <Pressable style={styles.backButton} onPress={handleBack}>
+          <ArrowLeft size={24} color="#ffffff" strokeWidth={2.5} />
+        </Pressable>
+        <View style={styles.headerTitleWrapper}>
+          <Text style={styles.headerTitle} numberOfLines={1}>Order #{id}</Text>
+          {order && (
+            <Text style={styles.headerSubtitle}>{formatDate(order.created_at)}</Text>
+          )}
+        </View>
+        {order && (
+          <View style={[styles.statusBadge, { backgroundColor: '#ffffff' }]}>
+            <Text style={[styles.statusText, { color: STATUS_COLORS[order.status] }]}>
+              {order.status.toUpperCase()}
+            </Text>
+          </View>
+        )}
+      </Animated.View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            tintColor="#4f46e5"
+            colors={['#4f46e5']}
+            progressBackgroundColor="#ffffff"
+          />
+        }>
+        <OrderStatusBanner change={transition} onPress={openTransitionedOrder} onDismiss={dismissTransition} />
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#4f46e5" />
+            <Text style={styles.loadingText}>Loading order...</Text>
+          </View>
+        ) : error || !order ? (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error || 'Order not found'}</Text>
+            <Pressable style={styles.retryButton} onPress={fetchOrder}>
+              <RefreshCw size={16} color="#ef4444" strokeWidth={2.5} />
+              <Text style={styles.retryText}>Retry</Text>
+            </Pressable>
+          </View>
+        ) : (
+          <>
+            <Animated.View entering={FadeInUp.duration(300)} style={styles.card}>
+              <View style={styles.productHeader}>
+                <View style={styles.productIcon}>
+                  <Package size={24} color="#4f46e5" strokeWidth={2.5} />
+                </View>
+                <View style={styles.productInfo}>
+                  <Text style={styles.productName}>{order.product?.name || order.product_name}</Text>
+                  <Text style={styles.productMeta}>
+                    {[order.product?.category, order.product?.unit || order.unit].filter(Boolean).join(' · ')}
+                  </Text>
+                </View>
+              </View>
+
+              <View style={styles.pricingGrid}>
+                <View style={styles.pricingItem}>
+                  <Text style={styles.pricingLabel}>Quantity</Text>
+                  <Text style={styles.pricingValue}>{order.quantity} {order.unit}</Text>
+                </View>
+                <View style={styles.pricingItem}>
+                  <Text style={styles.pricingLabel}>Unit price</Text>
+                  <View style={styles.amount}>
+                    <IndianRupee size={14} color="#0f172a" strokeWidth={2.5} />
+                    <Text style={styles.pricingValue}>{order.price_per_unit.toFixed(2)}</Text>
+                  </View>
+                </View>
+              </View>
+
+              <View style={styles.totalRow}>
+                <Text style={styles.totalLabel}>Total</Text>
+                <View style={styles.amount}>
+                  <IndianRupee size={20} color="#10b981" strokeWidth={2.5} />
+                  <Text style={styles.totalText}>{order.total_price.toFixed(2)}</Text>
+                </View>
+              </View>
+            </Animated.View>
+
+            <Animated.View entering={FadeInUp.duration(300).delay(100)} style={styles.card}>
+              <Text style={styles.cardTitle}>Details</Text>
+              {renderRow(
+                <Tag size={16} color="#64748b" strokeWidth={2.5} />,
+                'Price chart',
+                order.price_chart
+                  ? `${order.price_chart.name} (${order.price_chart.price_chart_code})`
+                  : 'Not recorded'
+              )}
+              {renderRow(
+                <Building2 size={16} color="#64748b" strokeWidth={2.5} />,
+                'Dealer',
+                order.dealer ? order.dealer.name : 'Unknown'
+              )}
+              {renderRow(
+                <Hash size={16} color="#64748b" strokeWidth={2.5} />,
+                'Dealer code',
+                order.dealer?.dealer_code || '-'
+              )}
+              {renderRow(
+                <User size={16} color="#64748b" strokeWidth={2.5} />,
+                'Salesman',
+                order.salesman?.display_name || 'Not assigned',
+                true
+              )}
+            </Animated.View>
+
+            {order.notes && (
+              <Animated.View entering={FadeInUp.duration(300).delay(200)} style={styles.card}>
+                <View style={styles.notesHeader}>
+                  <FileText size={16} color="#64748b" strokeWidth={2.5} />
+                  <Text style={styles.cardTitle}>Notes</Text>
+                </View>
+                <Text style={styles.notesText}>{order.notes}</Text>
+              </Animated.View>
+            )}
+
+            <Animated.View entering={FadeInUp.duration(300).delay(300)} style={styles.card}>
+              <Text style={styles.cardTitle}>Status history</Text>
+              {getStatusHistory(order).map((entry, index, history) => (
+                <View key={entry.status} style={styles.timelineRow}>
+                  <View style={styles.timelineMarker}>
+                    <View style={[styles.timelineDot, { backgroundColor: STATUS_COLORS[entry.status] }]}>
+                      {entry.status === 'completed' ? (
+                        <CheckCircle size={14} color="#ffffff" strokeWidth={2.5} />
+                      ) : entry.status === 'canceled' ? (
+                        <XCircle size={14} color="#ffffff" strokeWidth={2.5} />
+                      ) : (
+                        <Clock size={14} color="#ffffff" strokeWidth={2.5} />
+                      )}
+                    </View>
+                    {index < history.length - 1 && <View style={styles.timelineLine} />}
+                  </View>
+                  <View style={styles.timelineContent}>
+                    <Text style={styles.timelineLabel}>{entry.label}</Text>
+                    <Text style={styles.timelineDate}>{formatDate(entry.at)}</Text>
+                    {entry.detail && (
+                      <Text style={styles.timelineDetail}>{entry.detail}</Text>
+                    )}
+                  </View>
+                </View>
+              ))}
+            </Animated.View>
+
+            <Animated.View entering={FadeInUp.duration(300).delay(400)} style={styles.card}>
+              <Text style={styles.cardTitle}>Timestamps</Text>
+              {renderRow(
+                <Calendar size={16} color="#64748b" strokeWidth={2.5} />,
+                'Created',
+                formatDate(order.created_at)
+              )}
+              {renderRow(
+                <Clock size={16} color="#64748b" strokeWidth={2.5} />,
+                'Last updated',
+                formatDate(order.updated_at),
+                true
+              )}
+            </Animated.View>
+
+            <Animated.View entering={FadeInUp.duration(300).delay(500)} style={styles.actions}>
+              <Pressable style={styles.reorderButton} onPress={() => setShowReorderModal(true)}>
+                <RotateCcw size={20} color="#4f46e5" strokeWidth={2.5} />
+                <Text style={styles.reorderButtonText}>Reorder</Text>
+              </Pressable>
+              {order.status === 'processing' && (
+                <Pressable style={styles.cancelButton} onPress={() => setShowCancelModal(true)}>
+                  <XCircle size={20} color="#ef4444" strokeWidth={2.5} />
+                  <Text style={styles.cancelButtonText}>Cancel Order</Text>
+                </Pressable>
+              )}
+            </Animated.View>
+          </>
+        )}
+      </ScrollView>
+
+      <CancelOrderModal
+        visible={showCancelModal}
+        order={order}
+        onClose={() => setShowCancelModal(false)}
+        onConfirm={handleCancelOrder}
+      />
+
+      <NewOrderModal
+        visible={showReorderModal}
+        onClose={() => setShowReorderModal(false)}
+        onSuccess={() => setShowReorderModal(false)}
+        reorderFrom={order}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingTop: Platform.OS === 'ios' ? 60 : Platform.OS === 'android' ? 48 : 20,
+    paddingBottom: 20,
+    backgroundColor: '#4f46e5',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  headerTitleWrapper: {
+    flex: 1,
+    gap: 4,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    color: '#e0e7ff',
+    letterSpacing: 0.3,
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 20,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+    letterSpacing: 0.2,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  loadingContainer: {
+    padding: 40,
+    alignItems: 'center',
+    gap: 12,
+  },
+  loadingText: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  errorContainer: {
+    alignItems: 'center',
+    padding: 16,
+    gap: 12,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#ef4444',
+    textAlign: 'center',
+  },
+  retryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fee2e2',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    gap: 8,
+  },
+  retryText: {
+    fontSize: 14,
+    color: '#ef4444',
+    fontWeight: '600',
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#0f172a',
+    marginBottom: 12,
+    letterSpacing: 0.3,
+  },
+  productHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 16,
+  },
+  productIcon: {
+    width: 48,
+    height: 48,
+    borderRadius: 12,
+    backgroundColor: '#e0e7ff',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  productInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  productName: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#0f172a',
+    letterSpacing: 0.3,
+  },
+  productMeta: {
+    fontSize: 13,
+    color: '#64748b',
+    letterSpacing: 0.2,
+  },
+  pricingGrid: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  pricingItem: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    padding: 12,
+    gap: 4,
+  },
+  pricingLabel: {
+    fontSize: 12,
+    color: '#64748b',
+    letterSpacing: 0.2,
+  },
+  pricingValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#0f172a',
+  },
+  amount: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  totalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#f0fdf4',
+    borderRadius: 12,
+    padding: 12,
+  },
+  totalLabel: {
+    fontSize: 14,
+    color: '#064e3b',
+    fontWeight: '600',
+  },
+  totalText: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#10b981',
+    letterSpacing: 0.5,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  lastRow: {
+    borderBottomWidth: 0,
+  },
+  infoLabel: {
+    width: 100,
+    fontSize: 14,
+    color: '#64748b',
+  },
+  infoValue: {
+    flex: 1,
+    fontSize: 14,
+    color: '#0f172a',
+    fontWeight: '500',
+    textAlign: 'right',
+  },
+  notesHeader: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    gap: 8,
+  },
+  notesText: {
+    fontSize: 14,
+    color: '#334155',
+    lineHeight: 20,
+  },
+  timelineRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  timelineMarker: {
+    alignItems: 'center',
+  },
+  timelineDot: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  timelineLine: {
+    width: 2,
+    flex: 1,
+    minHeight: 16,
+    backgroundColor: '#e2e8f0',
+  },
+  timelineContent: {
+    flex: 1,
+    paddingBottom: 16,
+    gap: 2,
+  },
+  timelineLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0f172a',
+  },
+  timelineDate: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  timelineDetail: {
+    fontSize: 13,
+    color: '#334155',
+    fontStyle: 'italic',
+    marginTop: 2,
+  },
+  actions: {
+    gap: 12,
+  },
+  reorderButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    height: 52,
+    borderRadius: 16,
+    backgroundColor: '#eef2ff',
+    borderWidth: 2,
+    borderColor: '#e0e7ff',
+  },
+  reorderButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#4f46e5',
+    letterSpacing: 0.3,
+  },
+  cancelButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    height: 52,
+    borderRadius: 16,
+    backgroundColor: '#fef2f2',
+    borderWidth: 2,
+    borderColor: '#fee2e2',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ef4444',
+    letterSpacing: 0.3,
+  },
+});
@@ -1,144 +1,234 @@
-import { View, Text, StyleSheet, ScrollView, Pressable, Platform, RefreshControl } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, FlatList, Pressable, Platform, RefreshControl, ActivityIndicator } from 'react-native';
 import { useAuth } from '@/providers/AuthProvider';
-import { Package, Plus, Search, ChevronDown, Calendar, ShoppingBag, IndianRupee, RefreshCw } from 'lucide-react-native';
+import { Package, Plus, Search, ChevronDown, AlertTriangle, X } from 'lucide-react-native';
 import Animated, { FadeInUp } from 'react-native-reanimated';
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { TextInput } from 'react-native';
 import NewOrderModal from '@/components/NewOrderModal';
-import { fetchDealerOrders } from '@/lib/api/orders';
+import CancelOrderModal from '@/components/CancelOrderModal';
+import OrderCard from '@/components/OrderCard';
+import PendingOrderCard from '@/components/PendingOrderCard';
+import OrderStatusBanner from '@/components/OrderStatusBanner';
+import OrderFilterSheet, { getActiveFilterChips, removeFilterGroup, type FilterChipKey } from '@/components/OrderFilterSheet';
+import { fetchDealerOrdersPage, fetchDealerOrderedProducts, cancelOrder, rememberOrderStatuses } from '@/lib/api/orders';
 import { fetchDealerByUserId } from '@/lib/api/dealers';
+import { useQuery } from '@/hooks/useQuery';
+import { usePendingOrders } from '@/hooks/useOrderOutbox';
+import { useOrderChanges, useOrderStatusBanner } from '@/hooks/useOrderChanges';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useRouter } from 'expo-router';
+import type { Order, OrderChange, OrderFilters, OrderPage, OrderedProduct } from '@/types/orders';
 
-const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
+// Filters are kept between app launches
+const FILTERS_STORAGE_KEY = 'orders_filters';
 
-// Cache keys
-const CACHE_KEYS = {
-  ORDERS: 'orders_cache',
-  LAST_FETCH: 'orders_last_fetch',
-};
-
-// Cache duration (5 minutes)
-const CACHE_DURATION = 5 * 60 * 1000;
-
-interface Order {
-  id: string;
-  product_name: string;
-  quantity: number;
-  total_price: number;
-  status: string;
-  created_at: string;
-}
+// Wait for the dealer to stop typing before searching on the server
+const SEARCH_DEBOUNCE = 300;
 
 export default function Orders() {
   const { profile } = useAuth();
-  const [orders, setOrders] = useState<Order[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
   const [showNewOrderModal, setShowNewOrderModal] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [dealerId, setDealerId] = useState<string | null>(null);
+  const [orderToCancel, setOrderToCancel] = useState<Order | null>(null);
+  const [orderToReorder, setOrderToReorder] = useState<Order | null>(null);
+  const [filters, setFilters] = useState<OrderFilters>({});
+  const [filtersLoaded, setFiltersLoaded] = useState(false);
+  const [showFilterSheet, setShowFilterSheet] = useState(false);
 
-  // Load cached data
-  const loadCachedData = useCallback(async () => {
-    try {
-      const lastFetch = await AsyncStorage.getItem(CACHE_KEYS.LAST_FETCH);
-      const now = Date.now();
-      
-      if (lastFetch && now - parseInt(lastFetch) < CACHE_DURATION) {
-        const cachedOrders = await AsyncStorage.getItem(CACHE_KEYS.ORDERS);
-        if (cachedOrders) {
-          setOrders(JSON.parse(cachedOrders));
-          return true;
-        }
-      }
-      return false;
-    } catch (error) {
-      console.error('Error loading cached data:', error);
-      return false;
+  const activeFilterChips = useMemo(() => getActiveFilterChips(filters), [filters]);
+  const hasActiveFilters = activeFilterChips.length > 0;
+
+  const resolveDealerId = useCallback(async () => {
+    if (dealerId) return dealerId;
+    if (!profile?.user_id) {
+      throw new Error('User ID not found');
     }
-  }, []);
 
-  // Save data to cache
-  const saveToCache = useCallback(async (orders: Order[]) => {
-    try {
-      await Promise.all([
-        AsyncStorage.setItem(CACHE_KEYS.ORDERS, JSON.stringify(orders)),
-        AsyncStorage.setItem(CACHE_KEYS.LAST_FETCH, Date.now().toString())
-      ]);
-    } catch (error) {
-      console.error('Error saving to cache:', error);
+    const dealerData = await fetchDealerByUserId(profile.user_id);
+    if (!dealerData) {
+      throw new Error('Dealer not found');
     }
-  }, []);
+    setDealerId(dealerData.id);
+    return dealerData.id;
+  }, [dealerId, profile?.user_id]);
+
+  // Each filter and search combination is cached on its own, along with every page loaded for it
+  const ordersQuery = useQuery<OrderPage>({
+    key: profile?.user_id && filtersLoaded
+      ? { userId: profile.user_id, resource: 'orders', params: { filters, search: debouncedSearch } }
+      : null,
+    fetcher: async () => fetchDealerOrdersPage(await resolveDealerId(), { filters, search: debouncedSearch }),
+    errorMessage: 'Failed to fetch orders',
+  });
+  const { setData: setOrdersPage, refetch: refetchOrders } = ordersQuery;
+  const orders = useMemo(() => ordersQuery.data?.orders ?? [], [ordersQuery.data]);
+  const nextCursor = ordersQuery.data?.nextCursor ?? null;
+  const loading = ordersQuery.loading;
+  const error = actionError || ordersQuery.error;
+
+  useEffect(() => {
+    rememberOrderStatuses(orders);
+  }, [orders]);
+
+  // The list may come from the cache, but Realtime still needs to know the dealer
+  useEffect(() => {
+    if (profile?.user_id) {
+      resolveDealerId().catch(err => console.error('Error resolving dealer:', err));
+    }
+  }, [profile?.user_id, resolveDealerId]);
+
+  // Apply Realtime changes to the loaded list in place
+  useOrderChanges(dealerId, (change: OrderChange) => {
+    const page = ordersQuery.data;
+    if (!page) return;
+
+    if (page.orders.some(order => order.id === change.order.id)) {
+      // An order that moved out of the selected statuses leaves the list
+      const stillMatches = !filters.statuses?.length || filters.statuses.includes(change.order.status);
+      setOrdersPage({
+        ...page,
+        orders: stillMatches
+          ? page.orders.map(order => (order.id === change.order.id ? { ...order, ...change.order } : order))
+          : page.orders.filter(order => order.id !== change.order.id),
+      });
+    } else if (change.type === 'INSERT' && !hasActiveFilters && !debouncedSearch) {
+      // New orders can only be placed at the top when nothing narrows the list
+      setOrdersPage({ ...page, orders: [change.order, ...page.orders] });
+    }
+  });
+  const { transition, dismiss: dismissTransition } = useOrderStatusBanner(dealerId);
+
+  // Orders placed offline that have not reached the server yet
+  const { pending: pendingOrders, retry: retryPendingOrder, discard: discardPendingOrder } =
+    usePendingOrders(profile?.user_id);
+
+  // Only needed once the filter sheet is opened
+  const orderedProductsQuery = useQuery<OrderedProduct[]>({
+    key: profile?.user_id && showFilterSheet
+      ? { userId: profile.user_id, resource: 'ordered-products' }
+      : null,
+    fetcher: async () => fetchDealerOrderedProducts(await resolveDealerId()),
+    errorMessage: 'Failed to load products for filters',
+  });
+
+  // Fetch the page after the last loaded order
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore || loading) return;
 
-  // Fetch fresh data
-  const fetchOrders = useCallback(async () => {
     try {
-      if (!profile?.user_id) {
-        throw new Error('User ID not found');
-      }
-
-      const dealerData = await fetchDealerByUserId(profile.user_id);
-      if (!dealerData) {
-        throw new Error('Dealer not found');
-      }
-
-      const ordersData = await fetchDealerOrders(dealerData.id);
-      setOrders(ordersData);
-      await saveToCache(ordersData);
+      setLoadingMore(true);
+      const currentDealerId = await resolveDealerId();
+      const page = await fetchDealerOrdersPage(currentDealerId, {
+        filters,
+        search: debouncedSearch,
+        cursor: nextCursor,
+      });
+      setOrdersPage(prev => {
+        const loaded = prev?.orders ?? [];
+        const seen = new Set(loaded.map(order => order.id));
+        return {
+          orders: [...loaded, ...page.orders.filter(order => !seen.has(order.id))],
+          nextCursor: page.nextCursor,
+        };
+      });
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch orders');
+      setActionError(err instanceof Error ? err.message : 'Failed to load more orders');
     } finally {
-      setLoading(false);
+      setLoadingMore(false);
     }
-  }, [profile?.user_id, saveToCache]);
+  }, [nextCursor, loadingMore, loading, resolveDealerId, filters, debouncedSearch, setOrdersPage]);
 
-  // Initial load
+  // Restore saved filters
   useEffect(() => {
-    if (profile?.user_id) {
-      loadCachedData().then(hasCachedData => {
-        if (!hasCachedData) {
-          fetchOrders();
+    AsyncStorage.getItem(FILTERS_STORAGE_KEY)
+      .then(savedFilters => {
+        if (savedFilters) {
+          setFilters(JSON.parse(savedFilters));
         }
-      });
-    }
-  }, [profile?.user_id, loadCachedData, fetchOrders]);
+      })
+      .catch(error => console.error('Error loading saved filters:', error))
+      .finally(() => setFiltersLoaded(true));
+  }, []);
+
+  // Debounce the search box
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), SEARCH_DEBOUNCE);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const updateFilters = useCallback((nextFilters: OrderFilters) => {
+    setFilters(nextFilters);
+    setActionError(null);
+    AsyncStorage.setItem(FILTERS_STORAGE_KEY, JSON.stringify(nextFilters))
+      .catch(error => console.error('Error saving filters:', error));
+  }, []);
+
+  const handleApplyFilters = (nextFilters: OrderFilters) => {
+    updateFilters(nextFilters);
+    setShowFilterSheet(false);
+  };
+
+  const handleRemoveFilter = (key: FilterChipKey) => {
+    updateFilters(removeFilterGroup(filters, key));
+  };
 
   // Handle refresh
   const handleRefresh = useCallback(async () => {
     setRefreshing(true);
-    await fetchOrders();
+    setActionError(null);
+    await refetchOrders();
     setRefreshing(false);
-  }, [fetchOrders]);
+  }, [refetchOrders]);
 
+  // Placing an order invalidates the cached order lists, which refetch on their own
   const handleOrderSuccess = () => {
-    fetchOrders();
+    setActionError(null);
   };
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-    });
-  };
+  const handleCancelOrder = async (reason: string) => {
+    if (!orderToCancel) return;
+
+    const target = orderToCancel;
+    const currentDealerId = await resolveDealerId();
+    const replaceOrder = (replacement: Order) => setOrdersPage(prev => ({
+      orders: (prev?.orders ?? []).map(order => (order.id === replacement.id ? replacement : order)),
+      nextCursor: prev?.nextCursor ?? null,
+    }));
+
+    // Show the order as canceled straight away and roll back if the backend refuses
+    replaceOrder({ ...target, status: 'canceled', cancellation_reason: reason });
+    setOrderToCancel(null);
+    setActionError(null);
 
-  const getStatusColor = (status: string) => {
-    switch (status.toLowerCase()) {
-      case 'processing':
-        return '#f59e0b';
-      case 'completed':
-        return '#10b981';
-      case 'canceled':
-        return '#ef4444';
-      default:
-        return '#6b7280';
+    try {
+      replaceOrder(await cancelOrder(target.id, currentDealerId, reason));
+    } catch (err) {
+      replaceOrder(target);
+      setActionError(err instanceof Error ? err.message : 'Failed to cancel order');
+      // The order may have moved on server-side; pick up its real status
+      refetchOrders();
     }
   };
 
-  const filteredOrders = orders.filter(order =>
-    order.product_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    order.id.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  const openOrder = useCallback((order: Order) => {
+    router.push(`/orders/${order.id}` as any);
+  }, [router]);
+
+  const openReorder = useCallback((order: Order) => {
+    setOrderToReorder(order);
+    setShowNewOrderModal(true);
+  }, []);
+
+  const closeNewOrderModal = () => {
+    setShowNewOrderModal(false);
+    setOrderToReorder(null);
+  };
 
   return (
     <View style={styles.container}>
@@ -170,16 +260,63 @@ export default function Orders() {
             value={searchQuery}
             onChangeText={setSearchQuery}
           />
-          <Pressable style={styles.filterButton}>
+          <Pressable style={styles.filterButton} onPress={() => setShowFilterSheet(true)}>
             <Text style={styles.filterButtonText}>Filter</Text>
-            <ChevronDown size={16} color="#4f46e5" strokeWidth={2.5} />
+            {hasActiveFilters ? (
+              <View style={styles.filterCount}>
+                <Text style={styles.filterCountText}>{activeFilterChips.length}</Text>
+              </View>
+            ) : (
+              <ChevronDown size={16} color="#4f46e5" strokeWidth={2.5} />
+            )}
           </Pressable>
         </View>
+
+        {hasActiveFilters && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.chipScroller}
+            contentContainerStyle={styles.chipRow}>
+            {activeFilterChips.map(chip => (
+              <Pressable
+                key={chip.key}
+                style={styles.filterChip}
+                onPress={() => handleRemoveFilter(chip.key)}>
+                <Text style={styles.filterChipText}>{chip.label}</Text>
+                <X size={14} color="#ffffff" strokeWidth={2.5} />
+              </Pressable>
+            ))}
+          </ScrollView>
+        )}
       </View>
 
-      <ScrollView 
+      {transition && (
+        <View style={styles.bannerContainer}>
+          <OrderStatusBanner change={transition} onPress={change => openOrder(change.order)} onDismiss={dismissTransition} />
+        </View>
+      )}
+
+      <FlatList
         style={styles.content}
+        contentContainerStyle={styles.listContent}
+        data={orders}
+        keyExtractor={order => order.id}
+        renderItem={({ item, index }) => (
+          <OrderCard
+            order={item}
+            index={index}
+            onPress={openOrder}
+            onCancel={setOrderToCancel}
+            onReorder={openReorder}
+          />
+        )}
         showsVerticalScrollIndicator={false}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        initialNumToRender={10}
+        windowSize={7}
+        removeClippedSubviews={Platform.OS === 'android'}
         refreshControl={
           <RefreshControl
             refreshing={refreshing}
@@ -188,57 +325,68 @@ export default function Orders() {
             colors={['#4f46e5']}
             progressBackgroundColor="#ffffff"
           />
-        }>
-        {filteredOrders.map((order, index) => (
-          <AnimatedPressable
-            key={order.id}
-            entering={FadeInUp.duration(300).delay(index * 100)}
-            style={styles.orderCard}>
-            <View style={styles.orderHeader}>
-              <View style={styles.orderIcon}>
-                <ShoppingBag size={20} color="#4f46e5" strokeWidth={2.5} />
-              </View>
-              <View style={styles.orderInfo}>
-                <Text style={styles.orderId}>Order #{order.id}</Text>
-                <View style={styles.dateContainer}>
-                  <Calendar size={12} color="#64748b" strokeWidth={2.5} />
-                  <Text style={styles.orderDate}>{formatDate(order.created_at)}</Text>
-                </View>
-              </View>
-              <View style={[
-                styles.statusBadge,
-                { backgroundColor: `${getStatusColor(order.status)}15` }
-              ]}>
-                <Text style={[
-                  styles.statusText,
-                  { color: getStatusColor(order.status) }
-                ]}>
-                  {order.status.toUpperCase()}
-                </Text>
-              </View>
+        }
+        ListHeaderComponent={
+          <>
+            {error && (
+              <Animated.View entering={FadeInUp.duration(300)} style={styles.errorBanner}>
+                <AlertTriangle size={18} color="#ef4444" strokeWidth={2.5} />
+                <Text style={styles.errorBannerText}>{error}</Text>
+              </Animated.View>
+            )}
+            {pendingOrders.map(entry => (
+              <PendingOrderCard
+                key={entry.client_request_id}
+                entry={entry}
+                onRetry={retryPendingOrder}
+                onDiscard={discardPendingOrder}
+              />
+            ))}
+          </>
+        }
+        ListEmptyComponent={
+          loading ? (
+            <View style={styles.listStatus}>
+              <ActivityIndicator size="large" color="#4f46e5" />
             </View>
-
-            <View style={styles.orderDetails}>
-              <Text style={styles.productName}>{order.product_name}</Text>
-              <View style={styles.orderMetrics}>
-                <View style={styles.metricItem}>
-                  <ShoppingBag size={14} color="#64748b" strokeWidth={2.5} />
-                  <Text style={styles.quantity}>Qty: {order.quantity}</Text>
-                </View>
-                <View style={styles.metricItem}>
-                  <IndianRupee size={14} color="#4f46e5" strokeWidth={2.5} />
-                  <Text style={styles.totalPrice}>{order.total_price.toFixed(2)}</Text>
-                </View>
-              </View>
+          ) : (
+            <View style={styles.listStatus}>
+              <Package size={48} color="#94a3b8" strokeWidth={2.5} />
+              <Text style={styles.listStatusText}>
+                {debouncedSearch || hasActiveFilters ? 'No orders match your search' : 'No orders yet'}
+              </Text>
+            </View>
+          )
+        }
+        ListFooterComponent={
+          loadingMore ? (
+            <View style={styles.listFooter}>
+              <ActivityIndicator color="#4f46e5" />
             </View>
-          </AnimatedPressable>
-        ))}
-      </ScrollView>
+          ) : null
+        }
+      />
 
       <NewOrderModal
         visible={showNewOrderModal}
-        onClose={() => setShowNewOrderModal(false)}
+        onClose={closeNewOrderModal}
         onSuccess={handleOrderSuccess}
+        reorderFrom={orderToReorder}
+      />
+
+      <OrderFilterSheet
+        visible={showFilterSheet}
+        filters={filters}
+        products={orderedProductsQuery.data ?? []}
+        onClose={() => setShowFilterSheet(false)}
+        onApply={handleApplyFilters}
+      />
+
+      <CancelOrderModal
+        visible={orderToCancel !== null}
+        order={orderToCancel}
+        onClose={() => setOrderToCancel(null)}
+        onConfirm={handleCancelOrder}
       />
     </View>
   );
@@ -333,93 +481,76 @@ const styles = StyleSheet.create({
     color: '#4f46e5',
     fontWeight: '500',
   },
-  content: {
-    flex: 1,
-    padding: 16,
-  },
-  orderCard: {
-    backgroundColor: '#ffffff',
-    borderRadius: 16,
-    padding: 16,
-    marginBottom: 12,
-    borderWidth: 1,
-    borderColor: '#f1f5f9',
-  },
-  orderHeader: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    marginBottom: 16,
-  },
-  orderIcon: {
-    width: 44,
-    height: 44,
-    borderRadius: 12,
-    backgroundColor: '#e0e7ff',
+  filterCount: {
+    minWidth: 20,
+    height: 20,
+    borderRadius: 10,
+    paddingHorizontal: 6,
+    backgroundColor: '#4f46e5',
     justifyContent: 'center',
     alignItems: 'center',
   },
-  orderInfo: {
-    flex: 1,
-    marginLeft: 12,
-  },
-  orderId: {
-    fontSize: 16,
+  filterCountText: {
+    fontSize: 12,
+    color: '#ffffff',
     fontWeight: '600',
-    color: '#0f172a',
-    letterSpacing: 0.3,
   },
-  dateContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 4,
-    marginTop: 4,
+  chipScroller: {
+    marginTop: 12,
   },
-  orderDate: {
-    fontSize: 12,
-    color: '#64748b',
-    letterSpacing: 0.2,
+  chipRow: {
+    gap: 8,
   },
-  statusBadge: {
-    paddingHorizontal: 10,
+  filterChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
     paddingVertical: 6,
     borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
   },
-  statusText: {
-    fontSize: 12,
-    fontWeight: '600',
-    letterSpacing: 0.2,
+  filterChipText: {
+    fontSize: 13,
+    color: '#ffffff',
+    fontWeight: '500',
   },
-  orderDetails: {
-    borderTopWidth: 1,
-    borderTopColor: '#f1f5f9',
-    paddingTop: 16,
+  content: {
+    flex: 1,
   },
-  productName: {
-    fontSize: 15,
-    fontWeight: '500',
-    color: '#0f172a',
-    marginBottom: 12,
-    letterSpacing: 0.3,
+  bannerContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
   },
-  orderMetrics: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 16,
+  listContent: {
+    padding: 16,
   },
-  metricItem: {
-    flexDirection: 'row',
+  listStatus: {
     alignItems: 'center',
-    gap: 6,
+    gap: 12,
+    padding: 40,
   },
-  quantity: {
+  listStatusText: {
     fontSize: 14,
     color: '#64748b',
-    letterSpacing: 0.2,
   },
-  totalPrice: {
-    fontSize: 15,
-    fontWeight: '600',
-    color: '#4f46e5',
-    letterSpacing: 0.3,
+  listFooter: {
+    paddingVertical: 16,
+  },
+  errorBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#fef2f2',
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#fee2e2',
+  },
+  errorBannerText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#ef4444',
   },
 });
\ No newline at end of file
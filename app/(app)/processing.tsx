@@ -0,0 +1,514 @@
+import { View, Text, StyleSheet, ScrollView, Pressable, Platform, RefreshControl, ActivityIndicator } from 'react-native';
+import {
+  Clock,
+  ShoppingBag,
+  IndianRupee,
+  Calendar,
+  ChevronDown,
+  ChevronUp,
+  FileText,
+  Timer,
+  RefreshCw,
+  ChevronRight,
+} from 'lucide-react-native';
+import Animated, { FadeIn, FadeInUp } from 'react-native-reanimated';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useRouter } from 'expo-router';
+import { useProcessingOrders } from '@/hooks/useProcessingOrders';
+import type { Order } from '@/types/orders';
+
+const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Age buckets, oldest last; an order lands in the first bucket whose limit it is under
+const AGE_GROUPS = [
+  { key: 'today', title: 'Today', maxAge: DAY, color: '#10b981' },
+  { key: 'recent', title: '1-3 days', maxAge: 3 * DAY, color: '#f59e0b' },
+  { key: 'week', title: '4-7 days', maxAge: 7 * DAY, color: '#f97316' },
+  { key: 'older', title: 'Over a week', maxAge: Infinity, color: '#ef4444' },
+] as const;
+
+type AgeGroupKey = typeof AGE_GROUPS[number]['key'];
+
+function getTimeInStatus(order: Order, now: number): number {
+  // Orders enter `processing` when they are created and leave it on the next status change
+  return Math.max(0, now - new Date(order.created_at).getTime());
+}
+
+function formatDuration(ms: number): string {
+  const days = Math.floor(ms / DAY);
+  const hours = Math.floor((ms % DAY) / HOUR);
+  const minutes = Math.floor((ms % HOUR) / (60 * 1000));
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+}
+
+export default function Processing() {
+  const router = useRouter();
+  const [refreshing, setRefreshing] = useState(false);
+  const [expandedOrderId, setExpandedOrderId] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const ordersQuery = useProcessingOrders();
+  const { refetch: fetchOrders, loading, error, orders } = ordersQuery;
+
+  // Time in status is measured from when the list was loaded or refreshed
+  useEffect(() => {
+    setNow(Date.now());
+  }, [ordersQuery.data]);
+
+  // Keep time-in-status current while the screen is open
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Handle refresh
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await fetchOrders();
+    setRefreshing(false);
+  }, [fetchOrders]);
+
+  const groupedOrders = useMemo(() => {
+    const groups: Record<AgeGroupKey, Order[]> = { today: [], recent: [], week: [], older: [] };
+
+    orders.forEach(order => {
+      const age = getTimeInStatus(order, now);
+      const group = AGE_GROUPS.find(g => age < g.maxAge) ?? AGE_GROUPS[AGE_GROUPS.length - 1];
+      groups[group.key].push(order);
+    });
+
+    // Longest waiting orders first within each group
+    Object.values(groups).forEach(group =>
+      group.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+    );
+
+    return groups;
+  }, [orders, now]);
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const totalValue = orders.reduce((sum, order) => sum + order.total_price, 0);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.headerContent}>
+          <View style={styles.titleContainer}>
+            <View style={styles.titleIcon}>
+              <Clock size={24} color="#ffffff" strokeWidth={2.5} />
+            </View>
+            <View style={styles.titleWrapper}>
+              <Text style={styles.headerTitle}>Processing</Text>
+              <Text style={styles.headerSubtitle}>Track order processing</Text>
+            </View>
+          </View>
+        </View>
+
+        <View style={styles.summaryRow}>
+          <View style={styles.summaryItem}>
+            <Text style={styles.summaryValue}>{orders.length}</Text>
+            <Text style={styles.summaryLabel}>Orders in processing</Text>
+          </View>
+          <View style={styles.summaryItem}>
+            <View style={styles.summaryAmount}>
+              <IndianRupee size={18} color="#ffffff" strokeWidth={2.5} />
+              <Text style={styles.summaryValue}>{totalValue.toFixed(2)}</Text>
+            </View>
+            <Text style={styles.summaryLabel}>Total value</Text>
+          </View>
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            tintColor="#4f46e5"
+            colors={['#4f46e5']}
+            progressBackgroundColor="#ffffff"
+          />
+        }>
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#4f46e5" />
+            <Text style={styles.loadingText}>Loading orders...</Text>
+          </View>
+        ) : error ? (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+            <Pressable style={styles.retryButton} onPress={fetchOrders}>
+              <RefreshCw size={16} color="#ef4444" strokeWidth={2.5} />
+              <Text style={styles.retryText}>Retry</Text>
+            </Pressable>
+          </View>
+        ) : orders.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Clock size={48} color="#94a3b8" strokeWidth={2.5} />
+            <Text style={styles.emptyText}>No orders are being processed right now</Text>
+          </View>
+        ) : (
+          AGE_GROUPS.filter(group => groupedOrders[group.key].length > 0).map(group => (
+            <View key={group.key} style={styles.group}>
+              <View style={styles.groupHeader}>
+                <View style={[styles.groupDot, { backgroundColor: group.color }]} />
+                <Text style={styles.groupTitle}>{group.title}</Text>
+                <Text style={styles.groupCount}>{groupedOrders[group.key].length}</Text>
+              </View>
+
+              {groupedOrders[group.key].map((order, index) => {
+                const isExpanded = expandedOrderId === order.id;
+
+                return (
+                  <AnimatedPressable
+                    key={order.id}
+                    entering={FadeInUp.duration(300).delay(index * 100)}
+                    style={styles.orderCard}
+                    onPress={() => setExpandedOrderId(isExpanded ? null : order.id)}>
+                    <View style={styles.orderHeader}>
+                      <View style={styles.orderIcon}>
+                        <ShoppingBag size={20} color="#4f46e5" strokeWidth={2.5} />
+                      </View>
+                      <View style={styles.orderInfo}>
+                        <Text style={styles.orderId}>Order #{order.id}</Text>
+                        <Text style={styles.productName} numberOfLines={1}>{order.product_name}</Text>
+                      </View>
+                      <View style={[styles.timeBadge, { backgroundColor: `${group.color}15` }]}>
+                        <Timer size={12} color={group.color} strokeWidth={2.5} />
+                        <Text style={[styles.timeText, { color: group.color }]}>
+                          {formatDuration(getTimeInStatus(order, now))}
+                        </Text>
+                      </View>
+                    </View>
+
+                    <View style={styles.orderMetrics}>
+                      <View style={styles.metricItem}>
+                        <ShoppingBag size={14} color="#64748b" strokeWidth={2.5} />
+                        <Text style={styles.quantity}>Qty: {order.quantity} {order.unit}</Text>
+                      </View>
+                      <View style={styles.metricItem}>
+                        <IndianRupee size={14} color="#4f46e5" strokeWidth={2.5} />
+                        <Text style={styles.totalPrice}>{order.total_price.toFixed(2)}</Text>
+                      </View>
+                      <View style={styles.expandIcon}>
+                        {isExpanded ? (
+                          <ChevronUp size={18} color="#94a3b8" strokeWidth={2.5} />
+                        ) : (
+                          <ChevronDown size={18} color="#94a3b8" strokeWidth={2.5} />
+                        )}
+                      </View>
+                    </View>
+
+                    {isExpanded && (
+                      <Animated.View entering={FadeIn.duration(200)} style={styles.orderDetails}>
+                        <View style={styles.detailRow}>
+                          <Calendar size={14} color="#64748b" strokeWidth={2.5} />
+                          <Text style={styles.detailLabel}>Placed</Text>
+                          <Text style={styles.detailValue}>{formatDate(order.created_at)}</Text>
+                        </View>
+                        <View style={styles.detailRow}>
+                          <IndianRupee size={14} color="#64748b" strokeWidth={2.5} />
+                          <Text style={styles.detailLabel}>Unit price</Text>
+                          <Text style={styles.detailValue}>{order.price_per_unit.toFixed(2)}</Text>
+                        </View>
+                        {order.notes && (
+                          <View style={styles.detailRow}>
+                            <FileText size={14} color="#64748b" strokeWidth={2.5} />
+                            <Text style={styles.detailLabel}>Notes</Text>
+                            <Text style={styles.detailValue}>{order.notes}</Text>
+                          </View>
+                        )}
+                        <Pressable
+                          style={styles.viewDetailsButton}
+                          onPress={() => router.push(`/orders/${order.id}` as any)}>
+                          <Text style={styles.viewDetailsText}>View full details</Text>
+                          <ChevronRight size={16} color="#4f46e5" strokeWidth={2.5} />
+                        </Pressable>
+                      </Animated.View>
+                    )}
+                  </AnimatedPressable>
+                );
+              })}
+            </View>
+          ))
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    backgroundColor: '#4f46e5',
+    paddingTop: Platform.OS === 'ios' ? 60 : Platform.OS === 'android' ? 48 : 20,
+    paddingHorizontal: 16,
+    paddingBottom: 20,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  titleContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingTop: Platform.OS === 'android' ? 4 : 0,
+  },
+  titleIcon: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  titleWrapper: {
+    gap: 4,
+  },
+  headerTitle: {
+    fontSize: 26,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    letterSpacing: 0.5,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#e0e7ff',
+    letterSpacing: 0.3,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  summaryItem: {
+    flex: 1,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    borderRadius: 12,
+    padding: 12,
+    gap: 4,
+  },
+  summaryAmount: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  summaryValue: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#ffffff',
+    letterSpacing: 0.3,
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#e0e7ff',
+    letterSpacing: 0.2,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  loadingContainer: {
+    padding: 40,
+    alignItems: 'center',
+    gap: 12,
+  },
+  loadingText: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  errorContainer: {
+    alignItems: 'center',
+    padding: 16,
+    gap: 12,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#ef4444',
+    textAlign: 'center',
+  },
+  retryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fee2e2',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    gap: 8,
+  },
+  retryText: {
+    fontSize: 14,
+    color: '#ef4444',
+    fontWeight: '600',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    gap: 12,
+    padding: 40,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#64748b',
+    textAlign: 'center',
+  },
+  group: {
+    marginBottom: 16,
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  groupDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  groupTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#0f172a',
+    letterSpacing: 0.3,
+  },
+  groupCount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  orderCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  orderHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  orderIcon: {
+    width: 44,
+    height: 44,
+    borderRadius: 12,
+    backgroundColor: '#e0e7ff',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  orderInfo: {
+    flex: 1,
+    marginLeft: 12,
+    marginRight: 8,
+  },
+  orderId: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#0f172a',
+    letterSpacing: 0.3,
+  },
+  productName: {
+    fontSize: 13,
+    color: '#64748b',
+    marginTop: 4,
+    letterSpacing: 0.2,
+  },
+  timeBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 20,
+  },
+  timeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    letterSpacing: 0.2,
+  },
+  orderMetrics: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  metricItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  quantity: {
+    fontSize: 14,
+    color: '#64748b',
+    letterSpacing: 0.2,
+  },
+  totalPrice: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#4f46e5',
+    letterSpacing: 0.3,
+  },
+  expandIcon: {
+    marginLeft: 'auto',
+  },
+  orderDetails: {
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+    marginTop: 12,
+    paddingTop: 12,
+    gap: 8,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  detailLabel: {
+    width: 80,
+    fontSize: 13,
+    color: '#64748b',
+  },
+  detailValue: {
+    flex: 1,
+    fontSize: 13,
+    color: '#0f172a',
+    fontWeight: '500',
+  },
+  viewDetailsButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+    marginTop: 4,
+    paddingVertical: 8,
+    borderRadius: 12,
+    backgroundColor: '#eef2ff',
+  },
+  viewDetailsText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4f46e5',
+  },
+});
@@ -14,25 +14,17 @@ import {
   ChevronRight,
   RefreshCw
 } from 'lucide-react-native';
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useCallback } from 'react';
 import { supabase } from '@/lib/supabase';
 import { Database } from '@/types/supabase';
 import Animated, { FadeIn, FadeInRight } from 'react-native-reanimated';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useQuery } from '@/hooks/useQuery';
+import { useRouter } from 'expo-router';
 
 const AnimatedTouchableOpacity = Animated.createAnimatedComponent(TouchableOpacity);
 
 type Profile = Database['public']['Tables']['profiles']['Row'];
 
-// Cache keys
-const CACHE_KEYS = {
-  PROFILE: 'profile_cache',
-  LAST_FETCH: 'profile_last_fetch',
-};
-
-// Cache duration (5 minutes)
-const CACHE_DURATION = 5 * 60 * 1000;
-
 const menuItems = [
   {
     icon: Settings,
@@ -45,6 +37,7 @@ const menuItems = [
     title: 'Notifications',
     subtitle: 'Configure your notification settings',
     color: '#f97316',
+    route: '/notifications',
   },
   {
     icon: HelpCircle,
@@ -56,76 +49,24 @@ const menuItems = [
 
 export default function Profile() {
   const { profile: authProfile, signOut } = useAuth();
-  const [profile, setProfile] = useState<Profile | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
   const [refreshing, setRefreshing] = useState(false);
 
-  // Load cached data
-  const loadCachedData = useCallback(async () => {
-    try {
-      const lastFetch = await AsyncStorage.getItem(CACHE_KEYS.LAST_FETCH);
-      const now = Date.now();
-      
-      if (lastFetch && now - parseInt(lastFetch) < CACHE_DURATION) {
-        const cachedProfile = await AsyncStorage.getItem(CACHE_KEYS.PROFILE);
-        if (cachedProfile) {
-          setProfile(JSON.parse(cachedProfile));
-          return true;
-        }
-      }
-      return false;
-    } catch (error) {
-      console.error('Error loading cached data:', error);
-      return false;
-    }
-  }, []);
-
-  // Save data to cache
-  const saveToCache = useCallback(async (profile: Profile) => {
-    try {
-      await Promise.all([
-        AsyncStorage.setItem(CACHE_KEYS.PROFILE, JSON.stringify(profile)),
-        AsyncStorage.setItem(CACHE_KEYS.LAST_FETCH, Date.now().toString())
-      ]);
-    } catch (error) {
-      console.error('Error saving to cache:', error);
-    }
-  }, []);
-
-  // Fetch fresh data
-  const fetchProfile = useCallback(async () => {
-    try {
-      if (!authProfile?.user_id) return;
-
+  const profileQuery = useQuery<Profile>({
+    key: authProfile?.user_id ? { userId: authProfile.user_id, resource: 'profile' } : null,
+    fetcher: async () => {
       const { data, error } = await supabase
         .from('profiles')
         .select('*')
-        .eq('user_id', authProfile.user_id)
+        .eq('user_id', authProfile!.user_id)
         .single();
 
       if (error) throw error;
-      setProfile(data);
-      await saveToCache(data);
-    } catch (err) {
-      setError(
-        err instanceof Error ? err.message : 'Failed to fetch profile data'
-      );
-    } finally {
-      setLoading(false);
-    }
-  }, [authProfile?.user_id, saveToCache]);
-
-  // Initial load
-  useEffect(() => {
-    if (authProfile?.user_id) {
-      loadCachedData().then(hasCachedData => {
-        if (!hasCachedData) {
-          fetchProfile();
-        }
-      });
-    }
-  }, [authProfile?.user_id, loadCachedData, fetchProfile]);
+      return data;
+    },
+    errorMessage: 'Failed to fetch profile data',
+  });
+  const { data: profile, loading, error, refetch: fetchProfile } = profileQuery;
 
   // Handle refresh
   const handleRefresh = useCallback(async () => {
@@ -263,7 +204,8 @@ export default function Profile() {
             <AnimatedTouchableOpacity
               key={item.title}
               entering={FadeInRight.duration(400).delay(600 + index * 100)}
-              style={styles.menuItem}>
+              style={styles.menuItem}
+              onPress={() => item.route && router.push(item.route as any)}>
               <View style={[styles.menuIcon, { backgroundColor: `${item.color}15` }]}>
                 <item.icon size={24} color={item.color} strokeWidth={2.5} />
               </View>
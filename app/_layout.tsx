@@ -1,5 +1,5 @@
-import { useEffect } from 'react';
-import { Stack, useRouter, useSegments } from 'expo-router';
+import { useEffect, useRef } from 'react';
+import { Stack, usePathname, useRouter, useSegments } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { useFrameworkReady } from '@/hooks/useFrameworkReady';
 import { AuthProvider, useAuth } from '@/providers/AuthProvider';
@@ -9,27 +9,38 @@ function RootLayoutNav() {
   const { session, profile, isLoading } = useAuth();
   const segments = useSegments();
   const router = useRouter();
+  const pathname = usePathname();
+  // Deep link (e.g. myapp://orders/ORD-123) that launched the app while signed out
+  const pendingPath = useRef<string | null>(null);
+  const hasCheckedSession = useRef(false);
 
   useEffect(() => {
     if (isLoading) return;
 
+    const isColdStart = !hasCheckedSession.current;
+    hasCheckedSession.current = true;
     const inAuthGroup = segments[0] === '(auth)';
     const isNoAccess = segments[1] === 'no-access';
 
     if (!session && !inAuthGroup) {
-      // Not signed in, redirect to login
+      // Not signed in, redirect to login. Only a launch link is kept; after a
+      // sign-out the next account must not land on the previous user's page
+      pendingPath.current = isColdStart && pathname && pathname !== '/' ? pathname : null;
       router.replace('/login');
     } else if (session && inAuthGroup && !isNoAccess) {
       // Signed in, in auth group, not on no-access page
-      router.replace('/');
+      const target = pendingPath.current || '/';
+      pendingPath.current = null;
+      router.replace(target as any);
     } else if (session && profile?.role !== 'dealer' && !isNoAccess) {
       // Signed in but not a dealer, redirect to no-access
+      pendingPath.current = null;
       router.replace('/no-access');
     } else if (session && profile?.role === 'dealer' && isNoAccess) {
       // Dealer on no-access page, redirect to home
       router.replace('/');
     }
-  }, [session, segments, isLoading, profile?.role]);
+  }, [session, segments, isLoading, profile?.role, pathname]);
 
   useFrameworkReady();
 
@@ -0,0 +1,268 @@
+import { useMemo } from 'react';
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import { Hourglass, ShoppingBag, FileText, ChevronRight } from 'lucide-react-native';
+import type { Transaction } from '@/lib/api/finance';
+import type { Order } from '@/types/orders';
+import { getAgeingReport, type AgeingBucketKey, type OutstandingDebit } from '@/lib/finance-analytics';
+
+interface AgeingReportProps {
+  transactions: Transaction[];
+  // Orders behind the ledger's order entries, keyed by id
+  orders: Map<string, Order>;
+  onOrderPress: (orderId: string) => void;
+}
+
+const OLDEST_LIMIT = 5;
+
+const BUCKET_COLORS: Record<AgeingBucketKey, string> = {
+  '0-30': '#10b981',
+  '31-60': '#f59e0b',
+  '61-90': '#f97316',
+  '90+': '#ef4444',
+};
+
+function formatCurrency(amount: number) {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+function getBucketColor(days: number) {
+  if (days <= 30) return BUCKET_COLORS['0-30'];
+  if (days <= 60) return BUCKET_COLORS['31-60'];
+  if (days <= 90) return BUCKET_COLORS['61-90'];
+  return BUCKET_COLORS['90+'];
+}
+
+export default function AgeingReport({ transactions, orders, onOrderPress }: AgeingReportProps) {
+  const report = useMemo(() => getAgeingReport(transactions), [transactions]);
+  const oldest = report.outstanding.slice(0, OLDEST_LIMIT);
+
+  const renderDebit = (debit: OutstandingDebit) => {
+    const { transaction } = debit.line;
+    const order = transaction.transaction_type === 'order' ? orders.get(transaction.reference_id) : undefined;
+    const color = getBucketColor(debit.days);
+    const isPartial = debit.remaining < debit.line.debit;
+
+    const content = (
+      <>
+        {order
+          ? <ShoppingBag size={16} color="#4f46e5" strokeWidth={2.5} />
+          : <FileText size={16} color="#64748b" strokeWidth={2.5} />}
+        <View style={styles.debitInfo}>
+          <Text style={styles.debitName} numberOfLines={1}>
+            {order ? order.product_name : transaction.description}
+          </Text>
+          <Text style={styles.debitMeta}>
+            {formatDate(transaction.transaction_date)}
+            {isPartial ? ` · ${formatCurrency(debit.line.debit)} billed` : ''}
+          </Text>
+        </View>
+        <View style={styles.debitAmount}>
+          <Text style={styles.debitRemaining}>{formatCurrency(debit.remaining)}</Text>
+          <View style={[styles.daysBadge, { backgroundColor: `${color}15` }]}>
+            <Text style={[styles.daysText, { color }]}>{debit.days}d</Text>
+          </View>
+        </View>
+        {order && <ChevronRight size={16} color="#94a3b8" strokeWidth={2.5} />}
+      </>
+    );
+
+    if (!order) {
+      return <View key={transaction.id} style={styles.debitRow}>{content}</View>;
+    }
+    return (
+      <Pressable key={transaction.id} style={styles.debitRow} onPress={() => onOrderPress(order.id)}>
+        {content}
+      </Pressable>
+    );
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Hourglass size={20} color="#4f46e5" strokeWidth={2.5} />
+        <Text style={styles.title}>Outstanding by age</Text>
+        <Text style={styles.total}>{formatCurrency(report.totalOutstanding)}</Text>
+      </View>
+
+      {report.totalOutstanding > 0 ? (
+        <>
+          <View style={styles.bar}>
+            {report.buckets.map(bucket => bucket.amount > 0 && (
+              <View
+                key={bucket.key}
+                style={{ flex: bucket.amount, backgroundColor: BUCKET_COLORS[bucket.key] }}
+              />
+            ))}
+          </View>
+
+          <View style={styles.buckets}>
+            {report.buckets.map(bucket => (
+              <View key={bucket.key} style={styles.bucket}>
+                <View style={styles.bucketLabelRow}>
+                  <View style={[styles.bucketSwatch, { backgroundColor: BUCKET_COLORS[bucket.key] }]} />
+                  <Text style={styles.bucketLabel}>{bucket.label}</Text>
+                </View>
+                <Text style={styles.bucketAmount}>{formatCurrency(bucket.amount)}</Text>
+                <Text style={styles.bucketCount}>
+                  {bucket.count} {bucket.count === 1 ? 'entry' : 'entries'}
+                </Text>
+              </View>
+            ))}
+          </View>
+
+          <View style={styles.oldest}>
+            <Text style={styles.sectionTitle}>Oldest unpaid</Text>
+            {oldest.map(renderDebit)}
+          </View>
+        </>
+      ) : (
+        <Text style={styles.emptyText}>All orders are paid up.</Text>
+      )}
+
+      {report.unappliedCredit > 0 && (
+        <Text style={styles.creditText}>
+          {formatCurrency(report.unappliedCredit)} paid in advance will be applied to your next orders.
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#0f172a',
+    letterSpacing: 0.3,
+  },
+  total: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#0f172a',
+  },
+  bar: {
+    flexDirection: 'row',
+    height: 10,
+    borderRadius: 5,
+    overflow: 'hidden',
+    backgroundColor: '#f1f5f9',
+    marginBottom: 12,
+  },
+  buckets: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  bucket: {
+    flex: 1,
+  },
+  bucketLabelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  bucketSwatch: {
+    width: 8,
+    height: 8,
+    borderRadius: 2,
+  },
+  bucketLabel: {
+    fontSize: 11,
+    color: '#64748b',
+  },
+  bucketAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0f172a',
+    marginTop: 4,
+  },
+  bucketCount: {
+    fontSize: 11,
+    color: '#94a3b8',
+    marginTop: 2,
+  },
+  oldest: {
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+    letterSpacing: 0.2,
+  },
+  debitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  debitInfo: {
+    flex: 1,
+  },
+  debitName: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#0f172a',
+  },
+  debitMeta: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  debitAmount: {
+    alignItems: 'flex-end',
+    gap: 4,
+  },
+  debitRemaining: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0f172a',
+  },
+  daysBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  daysText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  creditText: {
+    fontSize: 13,
+    color: '#10b981',
+    marginTop: 12,
+  },
+});
@@ -1,14 +1,14 @@
 import React from 'react';
 import { View, Text, StyleSheet, Pressable, Platform } from 'react-native';
 import { useRouter, usePathname } from 'expo-router';
-import { Chrome as Home, FileText, Plus, Wallet, User } from 'lucide-react-native';
+import { Chrome as Home, FileText, BookOpen, Plus, Wallet, User } from 'lucide-react-native';
 import Animated, { FadeIn } from 'react-native-reanimated';
 import { useState } from 'react';
 import NewOrderModal from '@/components/NewOrderModal';
 
 const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
 
-type AppRoute = '/' | '/orders' | '/finance' | '/profile';
+type AppRoute = '/' | '/orders' | '/catalog' | '/finance' | '/profile';
 
 type Route = {
   name: string;
@@ -28,6 +28,11 @@ const routes: Route[] = [
     icon: FileText,
     path: '/orders',
   },
+  {
+    name: 'Catalog',
+    icon: BookOpen,
+    path: '/catalog',
+  },
   {
     name: 'New',
     icon: Plus,
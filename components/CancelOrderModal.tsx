@@ -0,0 +1,285 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  Pressable,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { CircleX as XCircle, AlertTriangle, IndianRupee } from 'lucide-react-native';
+import Animated, { FadeIn, FadeInUp } from 'react-native-reanimated';
+import type { Order } from '@/types/orders';
+
+const QUICK_REASONS = [
+  'Ordered by mistake',
+  'Wrong quantity',
+  'Wrong product',
+  'No longer needed',
+];
+
+interface CancelOrderModalProps {
+  visible: boolean;
+  order: Order | null;
+  onClose: () => void;
+  onConfirm: (reason: string) => Promise<void> | void;
+}
+
+export default function CancelOrderModal({ visible, order, onClose, onConfirm }: CancelOrderModalProps) {
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) {
+      setReason('');
+      setSubmitting(false);
+      setError(null);
+    }
+  }, [visible]);
+
+  const handleConfirm = async () => {
+    if (!reason.trim()) {
+      setError('Please tell us why you are canceling this order');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      await onConfirm(reason.trim());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel order');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <Animated.View entering={FadeInUp.duration(300)} style={styles.sheet}>
+          <View style={styles.iconContainer}>
+            <XCircle size={32} color="#ef4444" strokeWidth={2.5} />
+          </View>
+          <Text style={styles.title}>Cancel this order?</Text>
+
+          {order && (
+            <View style={styles.orderSummary}>
+              <Text style={styles.orderId}>Order #{order.id}</Text>
+              <Text style={styles.orderProduct}>
+                {order.product_name} · Qty {order.quantity}
+              </Text>
+              <View style={styles.orderAmount}>
+                <IndianRupee size={14} color="#4f46e5" strokeWidth={2.5} />
+                <Text style={styles.orderAmountText}>{order.total_price.toFixed(2)}</Text>
+              </View>
+            </View>
+          )}
+
+          <Text style={styles.inputLabel}>Reason for canceling</Text>
+          <View style={styles.quickReasons}>
+            {QUICK_REASONS.map(quickReason => (
+              <Pressable
+                key={quickReason}
+                style={[styles.reasonChip, reason === quickReason && styles.reasonChipActive]}
+                onPress={() => setReason(quickReason)}>
+                <Text style={[styles.reasonChipText, reason === quickReason && styles.reasonChipTextActive]}>
+                  {quickReason}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+          <TextInput
+            style={styles.reasonInput}
+            placeholder="Add a reason"
+            placeholderTextColor="#94a3b8"
+            multiline
+            value={reason}
+            onChangeText={setReason}
+            textAlignVertical="top"
+          />
+
+          {error && (
+            <Animated.View entering={FadeIn.duration(200)} style={styles.errorContainer}>
+              <AlertTriangle size={16} color="#ef4444" strokeWidth={2.5} />
+              <Text style={styles.errorText}>{error}</Text>
+            </Animated.View>
+          )}
+
+          <View style={styles.actions}>
+            <Pressable
+              style={[styles.button, styles.keepButton]}
+              onPress={onClose}
+              disabled={submitting}>
+              <Text style={styles.keepButtonText}>Keep Order</Text>
+            </Pressable>
+            <Pressable
+              style={[styles.button, styles.confirmButton]}
+              onPress={handleConfirm}
+              disabled={submitting}>
+              {submitting ? (
+                <ActivityIndicator color="#ffffff" />
+              ) : (
+                <Text style={styles.confirmButtonText}>Cancel Order</Text>
+              )}
+            </Pressable>
+          </View>
+        </Animated.View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(15, 23, 42, 0.5)',
+  },
+  sheet: {
+    backgroundColor: '#ffffff',
+    borderTopLeftRadius: 32,
+    borderTopRightRadius: 32,
+    padding: 24,
+    paddingBottom: Platform.OS === 'ios' ? 40 : 24,
+  },
+  iconContainer: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    backgroundColor: '#fef2f2',
+    justifyContent: 'center',
+    alignItems: 'center',
+    alignSelf: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#0f172a',
+    textAlign: 'center',
+    marginBottom: 16,
+    letterSpacing: 0.3,
+  },
+  orderSummary: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    gap: 4,
+  },
+  orderId: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#0f172a',
+  },
+  orderProduct: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  orderAmount: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  orderAmountText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#4f46e5',
+  },
+  inputLabel: {
+    fontSize: 14,
+    color: '#64748b',
+    marginBottom: 8,
+    letterSpacing: 0.2,
+  },
+  quickReasons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  reasonChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  reasonChipActive: {
+    borderColor: '#ef4444',
+    backgroundColor: '#fef2f2',
+  },
+  reasonChipText: {
+    fontSize: 13,
+    color: '#64748b',
+  },
+  reasonChipTextActive: {
+    color: '#ef4444',
+    fontWeight: '600',
+  },
+  reasonInput: {
+    borderRadius: 16,
+    padding: 16,
+    height: 96,
+    fontSize: 15,
+    color: '#0f172a',
+    borderWidth: 2,
+    borderColor: '#e0e7ff',
+    backgroundColor: '#f8fafc',
+    marginBottom: 16,
+  },
+  errorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#fef2f2',
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  errorText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#ef4444',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    height: 52,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  keepButton: {
+    backgroundColor: '#f1f5f9',
+    borderWidth: 2,
+    borderColor: '#e2e8f0',
+  },
+  keepButtonText: {
+    fontSize: 16,
+    color: '#64748b',
+    fontWeight: '600',
+  },
+  confirmButton: {
+    backgroundColor: '#ef4444',
+  },
+  confirmButtonText: {
+    fontSize: 16,
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,33 @@
+import { Pressable, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { Star } from 'lucide-react-native';
+
+interface FavouriteButtonProps {
+  active: boolean;
+  onToggle: () => void;
+  size?: number;
+  style?: StyleProp<ViewStyle>;
+}
+
+export default function FavouriteButton({ active, onToggle, size = 18, style }: FavouriteButtonProps) {
+  return (
+    <Pressable
+      style={[styles.button, style]}
+      onPress={onToggle}
+      hitSlop={8}
+      accessibilityRole="button"
+      accessibilityLabel={active ? 'Remove from favourites' : 'Add to favourites'}>
+      <Star
+        size={size}
+        color={active ? '#f59e0b' : '#94a3b8'}
+        fill={active ? '#f59e0b' : 'transparent'}
+        strokeWidth={2.5}
+      />
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    padding: 4,
+  },
+});
@@ -0,0 +1,192 @@
+import { useMemo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { TrendingUp, Clock, Package } from 'lucide-react-native';
+import type { Transaction } from '@/lib/api/finance';
+import type { Order } from '@/types/orders';
+import {
+  allocatePaymentsFifo,
+  getAverageDaysToPay,
+  getMonthlyTotals,
+  getTopProducts,
+} from '@/lib/finance-analytics';
+import FinanceTrendChart from '@/components/FinanceTrendChart';
+
+interface FinanceSummaryProps {
+  transactions: Transaction[];
+  // Orders behind the ledger's order entries, keyed by id
+  orders: Map<string, Order>;
+}
+
+const SUMMARY_MONTHS = 6;
+
+function formatCurrency(amount: number) {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+export default function FinanceSummary({ transactions, orders }: FinanceSummaryProps) {
+  const months = useMemo(() => getMonthlyTotals(transactions, SUMMARY_MONTHS), [transactions]);
+  const averageDaysToPay = useMemo(
+    () => getAverageDaysToPay(allocatePaymentsFifo(transactions).allocations),
+    [transactions]
+  );
+  const topProducts = useMemo(() => getTopProducts(transactions, orders), [transactions, orders]);
+
+  const totalPurchases = months.reduce((sum, month) => sum + month.debits, 0);
+  const totalPayments = months.reduce((sum, month) => sum + month.payments, 0);
+  const topValue = topProducts[0]?.value || 1;
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <TrendingUp size={20} color="#4f46e5" strokeWidth={2.5} />
+        <Text style={styles.title}>Last {SUMMARY_MONTHS} months</Text>
+      </View>
+
+      <View style={styles.stats}>
+        <View style={styles.stat}>
+          <Text style={styles.statLabel}>Purchases</Text>
+          <Text style={[styles.statValue, { color: '#f59e0b' }]}>{formatCurrency(totalPurchases)}</Text>
+        </View>
+        <View style={styles.stat}>
+          <Text style={styles.statLabel}>Payments</Text>
+          <Text style={[styles.statValue, { color: '#10b981' }]}>{formatCurrency(totalPayments)}</Text>
+        </View>
+        <View style={styles.stat}>
+          <View style={styles.statLabelRow}>
+            <Clock size={12} color="#64748b" strokeWidth={2.5} />
+            <Text style={styles.statLabel}>Avg. days to pay</Text>
+          </View>
+          <Text style={styles.statValue}>
+            {averageDaysToPay === null ? '—' : Math.round(averageDaysToPay)}
+          </Text>
+        </View>
+      </View>
+
+      <FinanceTrendChart months={months} />
+
+      {topProducts.length > 0 && (
+        <View style={styles.topProducts}>
+          <Text style={styles.sectionTitle}>Top products by value, all time</Text>
+          {topProducts.map(product => (
+            <View key={product.productId} style={styles.productRow}>
+              <Package size={16} color="#64748b" strokeWidth={2.5} />
+              <View style={styles.productInfo}>
+                <View style={styles.productHeader}>
+                  <Text style={styles.productName} numberOfLines={1}>{product.name}</Text>
+                  <Text style={styles.productValue}>{formatCurrency(product.value)}</Text>
+                </View>
+                <View style={styles.productBarTrack}>
+                  <View style={[styles.productBar, { width: `${(product.value / topValue) * 100}%` }]} />
+                </View>
+                <Text style={styles.productQuantity}>{product.quantity} {product.unit}</Text>
+              </View>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#0f172a',
+    letterSpacing: 0.3,
+  },
+  stats: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  stat: {
+    flex: 1,
+  },
+  statLabelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  statValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#0f172a',
+    marginTop: 4,
+  },
+  topProducts: {
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+    letterSpacing: 0.2,
+  },
+  productRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
+  productInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  productHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  productName: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#0f172a',
+  },
+  productValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0f172a',
+  },
+  productBarTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#f1f5f9',
+    overflow: 'hidden',
+  },
+  productBar: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#6366f1',
+  },
+  productQuantity: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+});
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { View, Text, StyleSheet, LayoutChangeEvent } from 'react-native';
+import Svg, { G, Rect, Line, Polyline, Circle, Text as SvgText } from 'react-native-svg';
+import type { MonthlyTotal } from '@/lib/finance-analytics';
+
+interface FinanceTrendChartProps {
+  months: MonthlyTotal[];
+  height?: number;
+}
+
+const DEBIT_COLOR = '#f59e0b';
+const PAYMENT_COLOR = '#10b981';
+const BALANCE_COLOR = '#4f46e5';
+
+const LABEL_HEIGHT = 20;
+const TOP_PADDING = 8;
+
+function formatCompact(amount: number) {
+  const absolute = Math.abs(amount);
+  const sign = amount < 0 ? '-' : '';
+  if (absolute >= 10000000) return `${sign}₹${(absolute / 10000000).toFixed(1)}Cr`;
+  if (absolute >= 100000) return `${sign}₹${(absolute / 100000).toFixed(1)}L`;
+  if (absolute >= 1000) return `${sign}₹${(absolute / 1000).toFixed(1)}K`;
+  return `${sign}₹${absolute.toFixed(0)}`;
+}
+
+export default function FinanceTrendChart({ months, height = 180 }: FinanceTrendChartProps) {
+  const [width, setWidth] = useState(0);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const values = months.flatMap(month => [month.debits, month.payments, month.closingBalance]);
+  const maxValue = Math.max(...values, 0);
+  const minValue = Math.min(...values, 0);
+  const range = maxValue - minValue || 1;
+
+  const plotHeight = height - LABEL_HEIGHT - TOP_PADDING;
+  const toY = (value: number) => TOP_PADDING + ((maxValue - value) / range) * plotHeight;
+  const zeroY = toY(0);
+
+  const slotWidth = months.length > 0 ? width / months.length : 0;
+  const barWidth = Math.max(Math.min(slotWidth / 4, 16), 2);
+
+  const balancePoints = months
+    .map((month, index) => `${slotWidth * index + slotWidth / 2},${toY(month.closingBalance)}`)
+    .join(' ');
+
+  return (
+    <View>
+      <View style={styles.legend}>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendSwatch, { backgroundColor: DEBIT_COLOR }]} />
+          <Text style={styles.legendText}>Purchases</Text>
+        </View>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendSwatch, { backgroundColor: PAYMENT_COLOR }]} />
+          <Text style={styles.legendText}>Payments</Text>
+        </View>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendSwatch, styles.legendLine, { backgroundColor: BALANCE_COLOR }]} />
+          <Text style={styles.legendText}>Balance</Text>
+        </View>
+        <Text style={styles.scaleText}>Max {formatCompact(maxValue)}</Text>
+      </View>
+
+      <View style={{ height }} onLayout={handleLayout}>
+        {width > 0 && (
+          <Svg width={width} height={height}>
+            <Line x1={0} y1={zeroY} x2={width} y2={zeroY} stroke="#e2e8f0" strokeWidth={1} />
+
+            {months.map((month, index) => {
+              const center = slotWidth * index + slotWidth / 2;
+              const debitTop = toY(month.debits);
+              const paymentTop = toY(month.payments);
+              return (
+                <G key={month.month}>
+                  <Rect
+                    x={center - barWidth - 1}
+                    y={debitTop}
+                    width={barWidth}
+                    height={Math.max(zeroY - debitTop, 0)}
+                    rx={2}
+                    fill={DEBIT_COLOR}
+                  />
+                  <Rect
+                    x={center + 1}
+                    y={paymentTop}
+                    width={barWidth}
+                    height={Math.max(zeroY - paymentTop, 0)}
+                    rx={2}
+                    fill={PAYMENT_COLOR}
+                  />
+                  <SvgText
+                    x={center}
+                    y={height - 4}
+                    fontSize={11}
+                    fill="#64748b"
+                    textAnchor="middle">
+                    {month.label}
+                  </SvgText>
+                </G>
+              );
+            })}
+
+            <Polyline points={balancePoints} fill="none" stroke={BALANCE_COLOR} strokeWidth={2} />
+            {months.map((month, index) => (
+              <Circle
+                key={`${month.month}-balance`}
+                cx={slotWidth * index + slotWidth / 2}
+                cy={toY(month.closingBalance)}
+                r={3}
+                fill={BALANCE_COLOR}
+              />
+            ))}
+          </Svg>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginBottom: 8,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  legendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 2,
+  },
+  legendLine: {
+    height: 3,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  scaleText: {
+    marginLeft: 'auto',
+    fontSize: 11,
+    color: '#94a3b8',
+  },
+});
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import {
   View,
   Text,
@@ -12,7 +12,6 @@ import {
   Dimensions,
   RefreshControl,
 } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { 
   Package, 
   ChevronDown, 
@@ -30,7 +29,8 @@ import {
   Building2,
   Hash,
   FileText,
-  User
+  User,
+  Wallet
 } from 'lucide-react-native';
 import Animated, { 
   FadeInUp, 
@@ -44,50 +44,41 @@ import Animated, {
   Extrapolate
 } from 'react-native-reanimated';
 import { useAuth } from '@/providers/AuthProvider';
-import { fetchDealerDetails, createOrder } from '@/lib/api/orders';
-import { fetchPriceChartByCode } from '@/lib/api/price-charts';
-import { fetchPriceChartProducts, type Product } from '@/lib/api/products';
+import { createOrderBatch, fetchDealerOrders } from '@/lib/api/orders';
+import { fetchPriceChartProducts, type Product } from '@/lib/api/catalog';
+import PriceChangeBadge from '@/components/PriceChangeBadge';
+import OrderCart, { type CartLine, getCartTotal, buildReorderLine } from '@/components/OrderCart';
+import type { Order } from '@/types/orders';
+import { useQuery } from '@/hooks/useQuery';
+import { useCatalog } from '@/hooks/useCatalog';
+import { useFavourites } from '@/hooks/useFavourites';
+import { useProductSearch } from '@/hooks/useProductSearch';
+import { getProductOrderStats, getSuggestionHistoryFilters } from '@/lib/order-suggestions';
+import ProductSuggestions from '@/components/ProductSuggestions';
+import FavouriteButton from '@/components/FavouriteButton';
+import { enqueueOrders, generateClientRequestId, isNetworkError } from '@/lib/order-outbox';
+import { fetchDealerCreditStatus, checkCreditLimit, describeCreditCheck, type CreditStatus } from '@/lib/api/credit';
 
 const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
-// Cache keys
-const CACHE_KEYS = {
-  DEALER_DETAILS: 'dealer_details_cache',
-  PRODUCTS: 'products_cache',
-  LAST_FETCH: 'last_fetch_timestamp',
-};
-
-// Cache duration (5 minutes)
-const CACHE_DURATION = 5 * 60 * 1000;
-
-interface DealerDetails {
-  id: string;
-  name: string;
-  dealer_code: string;
-  salesman_id: string | null;
-  price_chart: {
-    id: string;
-    name: string;
-    price_chart_code: string;
-  } | null;
-}
-
 interface NewOrderModalProps {
   visible: boolean;
   onClose: () => void;
   onSuccess: () => void;
+  // Past order to pre-fill the cart with
+  reorderFrom?: Order | null;
+  // Product to start with selected, e.g. when ordering from the catalog
+  initialProduct?: Product | null;
 }
 
-export default function NewOrderModal({ visible, onClose, onSuccess }: NewOrderModalProps) {
+export default function NewOrderModal({ visible, onClose, onSuccess, reorderFrom, initialProduct }: NewOrderModalProps) {
   const { profile } = useAuth();
-  const [dealerDetails, setDealerDetails] = useState<DealerDetails | null>(null);
-  const [products, setProducts] = useState<Product[]>([]);
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
   const [quantity, setQuantity] = useState('');
   const [notes, setNotes] = useState('');
   const [notesExpanded, setNotesExpanded] = useState(false);
-  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [productSearchQuery, setProductSearchQuery] = useState('');
   const [showProductDropdown, setShowProductDropdown] = useState(false);
@@ -96,6 +87,10 @@ export default function NewOrderModal({ visible, onClose, onSuccess }: NewOrderM
   const MAX_RETRIES = 3;
   const [showAllProducts, setShowAllProducts] = useState(false);
   const [showProfileDropdown, setShowProfileDropdown] = useState(false);
+  const [cart, setCart] = useState<CartLine[]>([]);
+  const [placedCount, setPlacedCount] = useState(0);
+  const [reorderWarning, setReorderWarning] = useState<string | null>(null);
+  const reorderAppliedFor = useRef<string | null>(null);
 
   // Animation values
   const dropdownHeight = useSharedValue(0);
@@ -113,89 +108,80 @@ export default function NewOrderModal({ visible, onClose, onSuccess }: NewOrderM
     opacity: dropdownOpacity.value,
   }));
 
-  // Load cached data
-  const loadCachedData = useCallback(async () => {
-    try {
-      const lastFetch = await AsyncStorage.getItem(CACHE_KEYS.LAST_FETCH);
-      const now = Date.now();
-      
-      if (lastFetch && now - parseInt(lastFetch) < CACHE_DURATION) {
-        const [cachedDealer, cachedProducts] = await Promise.all([
-          AsyncStorage.getItem(CACHE_KEYS.DEALER_DETAILS),
-          AsyncStorage.getItem(CACHE_KEYS.PRODUCTS)
-        ]);
-
-        if (cachedDealer && cachedProducts) {
-          setDealerDetails(JSON.parse(cachedDealer));
-          setProducts(JSON.parse(cachedProducts));
-          return true;
-        }
-      }
-      return false;
-    } catch (error) {
-      console.error('Error loading cached data:', error);
-      return false;
-    }
-  }, []);
+  const { dealerQuery, productsQuery, priceChartId, loadError } = useCatalog(visible);
+  const dealerDetails = dealerQuery.data;
+  const { setData: setProducts, refetch: refetchProducts } = productsQuery;
+  const { refetch: refetchDealer } = dealerQuery;
+  const products = productsQuery.data ?? [];
 
-  // Save data to cache
-  const saveToCache = useCallback(async (dealer: DealerDetails, products: Product[]) => {
-    try {
-      await Promise.all([
-        AsyncStorage.setItem(CACHE_KEYS.DEALER_DETAILS, JSON.stringify(dealer)),
-        AsyncStorage.setItem(CACHE_KEYS.PRODUCTS, JSON.stringify(products)),
-        AsyncStorage.setItem(CACHE_KEYS.LAST_FETCH, Date.now().toString())
-      ]);
-    } catch (error) {
-      console.error('Error saving to cache:', error);
-    }
-  }, []);
+  // Checked again by the API when the order is placed
+  const creditQuery = useQuery<CreditStatus>({
+    key: visible && profile?.user_id && dealerDetails
+      ? { userId: profile.user_id, resource: 'credit-status' }
+      : null,
+    fetcher: () => fetchDealerCreditStatus(dealerDetails!.id),
+    staleTime: 0,
+    errorMessage: 'Failed to load credit status',
+  });
+  const { refetch: refetchCredit } = creditQuery;
+  const creditStatus = creditQuery.data;
+  const creditCheck = creditStatus ? checkCreditLimit(creditStatus, getCartTotal(cart)) : null;
+  const creditWarning = creditStatus && creditCheck ? describeCreditCheck(creditStatus, creditCheck) : null;
 
-  // Fetch fresh data
-  const fetchFreshData = useCallback(async () => {
-    try {
-      setLoading(true);
-      setError(null);
+  const { favouriteIds, toggleFavourite, error: favouritesError } = useFavourites(visible ? dealerDetails?.id : null);
 
-      if (!profile?.user_id) {
-        throw new Error('User not authenticated');
-      }
+  // Suggestions are a convenience, so a failure here is not shown
+  const historyQuery = useQuery<Order[]>({
+    key: visible && profile?.user_id && dealerDetails
+      ? { userId: profile.user_id, resource: 'orders', params: { suggestions: true } }
+      : null,
+    fetcher: () => fetchDealerOrders(dealerDetails!.id, getSuggestionHistoryFilters()),
+  });
+  const orderStats = useMemo(() => getProductOrderStats(historyQuery.data ?? []), [historyQuery.data]);
 
-      const dealerData = await fetchDealerDetails(profile.user_id);
-      setDealerDetails(dealerData);
+  const displayError = error || loadError || favouritesError;
+  const filteredProducts = useProductSearch(products, productSearchQuery);
 
-      if (!dealerData.price_chart?.id) {
-        throw new Error('No price chart assigned to dealer');
-      }
+  // Fetch fresh data
+  const fetchFreshData = useCallback(async () => {
+    setRetryCount(prev => prev + 1);
+    await Promise.all([refetchDealer(), refetchProducts(), refetchCredit()]);
+  }, [refetchDealer, refetchProducts, refetchCredit]);
 
-      const products = await fetchPriceChartProducts(dealerData.price_chart.id);
-      setProducts(products);
+  // Reset the form whenever the modal is closed
+  useEffect(() => {
+    if (!visible) {
+      resetForm();
+    }
+  }, [visible]);
 
-      // Save to cache
-      await saveToCache(dealerData, products);
-      setRetryCount(0);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load data');
-      if (retryCount < MAX_RETRIES) {
-        setRetryCount(prev => prev + 1);
-      }
-    } finally {
-      setLoading(false);
+  useEffect(() => {
+    if (visible && initialProduct) {
+      setSelectedProduct(initialProduct);
     }
-  }, [profile?.user_id, retryCount, saveToCache]);
+  }, [visible, initialProduct]);
 
-  // Initial load
+  // Pre-fill the cart from a past order, priced against the current chart rather than the cache
   useEffect(() => {
-    if (visible && profile?.user_id) {
-      loadCachedData().then(hasCachedData => {
-        if (!hasCachedData) {
-          fetchFreshData();
+    if (!visible || !reorderFrom || !priceChartId || reorderAppliedFor.current === reorderFrom.id) {
+      return;
+    }
+
+    reorderAppliedFor.current = reorderFrom.id;
+    fetchPriceChartProducts(priceChartId)
+      .then(currentProducts => {
+        setProducts(currentProducts);
+        const { line, warning } = buildReorderLine(reorderFrom, currentProducts);
+        if (line) {
+          setCart([line]);
         }
+        setReorderWarning(warning);
+      })
+      .catch(err => {
+        reorderAppliedFor.current = null;
+        setError(err instanceof Error ? err.message : 'Failed to load current prices');
       });
-    } else {
-      resetForm();
-    }
-  }, [visible, profile?.user_id, loadCachedData, fetchFreshData]);
+  }, [visible, reorderFrom, priceChartId, setProducts]);
 
   // Handle refresh
   const handleRefresh = useCallback(async () => {
@@ -231,6 +217,13 @@ export default function NewOrderModal({ visible, onClose, onSuccess }: NewOrderM
     setShowProductDropdown(false);
   };
 
+  const handleSuggestionSelect = (product: Product, suggestedQuantity: number | null) => {
+    handleProductSelect(product);
+    if (suggestedQuantity) {
+      setQuantity(String(suggestedQuantity));
+    }
+  };
+
   const calculateTotal = () => {
     if (selectedProduct && quantity) {
       const qty = Number(quantity);
@@ -240,49 +233,144 @@ export default function NewOrderModal({ visible, onClose, onSuccess }: NewOrderM
     return 0;
   };
 
+  const handleAddToCart = () => {
+    if (!selectedProduct) {
+      setError('Please select a product');
+      return;
+    }
+    if (!quantity || isNaN(Number(quantity)) || Number(quantity) <= 0) {
+      setError('Please enter a valid quantity');
+      return;
+    }
+
+    const lineNotes = notes.trim();
+    setCart(prev => {
+      const existing = prev.find(line => line.product.id === selectedProduct.id);
+      if (!existing) {
+        return [...prev, { product: selectedProduct, quantity, notes: lineNotes, error: null }];
+      }
+      // Adding a product that is already in the cart tops up its quantity
+      return prev.map(line =>
+        line.product.id === selectedProduct.id
+          ? {
+              ...line,
+              quantity: String(Number(line.quantity || 0) + Number(quantity)),
+              notes: lineNotes ? [line.notes, lineNotes].filter(Boolean).join('; ') : line.notes,
+              error: null,
+            }
+          : line
+      );
+    });
+
+    setError(null);
+    setSelectedProduct(null);
+    setQuantity('');
+    setNotes('');
+    setNotesExpanded(false);
+  };
+
+  const updateCartLine = (productId: string, changes: Partial<CartLine>) => {
+    setCart(prev =>
+      prev.map(line => (line.product.id === productId ? { ...line, ...changes, error: null } : line))
+    );
+  };
+
+  const removeCartLine = (productId: string) => {
+    setCart(prev => prev.filter(line => line.product.id !== productId));
+  };
+
   const validateOrder = () => {
     if (!dealerDetails) {
       throw new Error('Dealer details not found');
     }
-    if (!selectedProduct) {
-      throw new Error('Please select a product');
+    if (cart.length === 0) {
+      throw new Error('Please add at least one product to the cart');
     }
-    if (!quantity || isNaN(Number(quantity)) || Number(quantity) <= 0) {
-      throw new Error('Please enter a valid quantity');
+    const invalidLine = cart.find(line =>
+      !line.quantity || isNaN(Number(line.quantity)) || Number(line.quantity) <= 0
+    );
+    if (invalidLine) {
+      throw new Error(`Please enter a valid quantity for ${invalidLine.product.name}`);
     }
   };
 
   const handleSubmit = async () => {
     try {
-      setLoading(true);
+      setSubmitting(true);
       setError(null);
 
       validateOrder();
 
-      const orderData = {
+      const submittedCart = cart.map(line =>
+        line.clientRequestId ? line : { ...line, clientRequestId: generateClientRequestId() }
+      );
+      setCart(submittedCart);
+
+      const orderLines = submittedCart.map(line => ({
         dealer_id: dealerDetails!.id,
-        product_id: selectedProduct!.id,
-        product_name: selectedProduct!.name,
-        unit: selectedProduct!.unit,
-        quantity: Number(quantity),
+        product_id: line.product.id,
+        product_name: line.product.name,
+        unit: line.product.unit,
+        quantity: Number(line.quantity),
         price_chart_id: dealerDetails!.price_chart?.id || null,
-        price_per_unit: selectedProduct!.price_per_unit,
-        total_price: calculateTotal(),
+        price_per_unit: line.product.price_per_unit,
+        total_price: Number(line.quantity) * line.product.price_per_unit,
         status: 'processing' as const,
-        notes: notes.trim() || null
-      };
+        notes: line.notes.trim() || null,
+        client_request_id: line.clientRequestId
+      }));
 
-      await createOrder(orderData);
-      onSuccess();
-      resetForm();
-      onClose();
+      let result;
+      try {
+        result = await createOrderBatch(orderLines);
+      } catch (err) {
+        if (!isNetworkError(err)) throw err;
+        // No connection at all; queue the whole cart and let the outbox place it later
+        await enqueueOrders(profile!.user_id, orderLines);
+        onSuccess();
+        resetForm();
+        onClose();
+        return;
+      }
+
+      // Lines that only failed because the connection dropped are queued rather than rejected
+      const offlineLines = result.failed.filter(failure => isNetworkError(failure.error));
+      const rejectedLines = result.failed.filter(failure => !isNetworkError(failure.error));
+      if (offlineLines.length > 0) {
+        await enqueueOrders(profile!.user_id, offlineLines.map(failure => failure.line));
+      }
+
+      if (rejectedLines.length === 0) {
+        onSuccess();
+        resetForm();
+        onClose();
+        return;
+      }
+
+      // Keep only the rejected lines in the cart so the dealer can fix and resubmit them
+      const acceptedCount = result.created.length + offlineLines.length;
+      setPlacedCount(prev => prev + acceptedCount);
+      setCart(rejectedLines.map(failure => ({ ...submittedCart[failure.index], error: failure.error })));
+      setError(
+        acceptedCount > 0
+          ? `${acceptedCount} of ${orderLines.length} products were ordered. The remaining lines were rejected.`
+          : 'None of the products could be ordered. Please review the lines below.'
+      );
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create order');
     } finally {
-      setLoading(false);
+      setSubmitting(false);
     }
   };
 
+  const handleClose = () => {
+    // Lines placed during a partially failed submission still need to be picked up by the caller
+    if (placedCount > 0) {
+      onSuccess();
+    }
+    onClose();
+  };
+
   const resetForm = () => {
     setSelectedProduct(null);
     setQuantity('');
@@ -292,26 +380,27 @@ export default function NewOrderModal({ visible, onClose, onSuccess }: NewOrderM
     setProductSearchQuery('');
     setShowProductDropdown(false);
     setShowAllProducts(false);
+    setCart([]);
+    setPlacedCount(0);
+    setReorderWarning(null);
+    reorderAppliedFor.current = null;
   };
 
-  const filteredProducts = products.filter(product =>
-    product.name.toLowerCase().includes(productSearchQuery.toLowerCase())
-  );
 
   return (
     <Modal
       visible={visible}
       animationType="slide"
       presentationStyle="pageSheet"
-      onRequestClose={onClose}>
+      onRequestClose={handleClose}>
       <View style={styles.container}>
         <Animated.View 
           entering={FadeIn.duration(300)}
           style={styles.header}>
-          <Pressable style={styles.backButton} onPress={onClose}>
+          <Pressable style={styles.backButton} onPress={handleClose}>
             <ArrowLeft size={24} color="#ffffff" strokeWidth={2.5} />
           </Pressable>
-          <Text style={styles.headerTitle}>New Order</Text>
+          <Text style={styles.headerTitle}>{reorderFrom ? 'Reorder' : 'New Order'}</Text>
           <Pressable 
             style={styles.headerIcon}
             onPress={() => setShowProfileDropdown(!showProfileDropdown)}>
@@ -360,13 +449,13 @@ export default function NewOrderModal({ visible, onClose, onSuccess }: NewOrderM
               progressBackgroundColor="#ffffff"
             />
           }>
-          {error && (
+          {displayError && (
             <Animated.View 
               entering={FadeIn.duration(300)}
               style={styles.errorContainer}>
               <AlertTriangle size={20} color="#ef4444" strokeWidth={2.5} />
-              <Text style={styles.errorText}>{error}</Text>
-              {retryCount < MAX_RETRIES && (
+              <Text style={styles.errorText}>{displayError}</Text>
+              {loadError && retryCount < MAX_RETRIES && (
                 <Pressable 
                   style={styles.retryButton}
                   onPress={fetchFreshData}>
@@ -377,7 +466,46 @@ export default function NewOrderModal({ visible, onClose, onSuccess }: NewOrderM
             </Animated.View>
           )}
 
-          {loading && !dealerDetails ? (
+          {reorderWarning && (
+            <Animated.View 
+              entering={FadeIn.duration(300)}
+              style={styles.warningContainer}>
+              <AlertCircle size={20} color="#f59e0b" strokeWidth={2.5} />
+              <Text style={styles.warningText}>{reorderWarning}</Text>
+            </Animated.View>
+          )}
+
+          {creditStatus && (
+            <View style={styles.creditCard}>
+              <Wallet size={20} color="#6366f1" strokeWidth={2.5} />
+              <View style={styles.creditItem}>
+                <Text style={styles.creditLabel}>Outstanding</Text>
+                <Text style={styles.creditValue}>₹{creditStatus.currentBalance.toFixed(2)}</Text>
+              </View>
+              <View style={styles.creditItem}>
+                <Text style={styles.creditLabel}>Available credit</Text>
+                <Text style={[
+                  styles.creditValue,
+                  creditStatus.availableCredit !== null && creditStatus.availableCredit <= 0 && styles.creditValueExceeded
+                ]}>
+                  {creditStatus.availableCredit === null
+                    ? 'No limit'
+                    : `₹${Math.max(creditStatus.availableCredit, 0).toFixed(2)}`}
+                </Text>
+              </View>
+            </View>
+          )}
+
+          {creditWarning && (
+            <Animated.View 
+              entering={FadeIn.duration(300)}
+              style={creditCheck?.blocked ? styles.errorContainer : styles.warningContainer}>
+              <AlertCircle size={20} color={creditCheck?.blocked ? '#ef4444' : '#f59e0b'} strokeWidth={2.5} />
+              <Text style={creditCheck?.blocked ? styles.errorText : styles.warningText}>{creditWarning}</Text>
+            </Animated.View>
+          )}
+
+          {dealerQuery.loading && !dealerDetails ? (
             <View style={styles.loadingContainer}>
               <ActivityIndicator size="large" color="#6366f1" />
               <Text style={styles.loadingText}>Loading dealer details...</Text>
@@ -385,6 +513,36 @@ export default function NewOrderModal({ visible, onClose, onSuccess }: NewOrderM
           ) : (
             <View style={styles.formSection}>
               <Text style={styles.sectionTitle}>Product Details</Text>
+
+              <View style={styles.productSearchContainer}>
+                <Search size={18} color="#94a3b8" strokeWidth={2.5} />
+                <TextInput
+                  style={styles.productSearchInput}
+                  placeholder="Search by name, category or unit"
+                  placeholderTextColor="#94a3b8"
+                  value={productSearchQuery}
+                  onChangeText={setProductSearchQuery}
+                  autoCorrect={false}
+                />
+                {productSearchQuery.length > 0 && (
+                  <Pressable onPress={() => setProductSearchQuery('')} hitSlop={8}>
+                    <X size={18} color="#94a3b8" strokeWidth={2.5} />
+                  </Pressable>
+                )}
+              </View>
+
+              {productSearchQuery.trim() ? (
+                filteredProducts.length === 0 && (
+                  <Text style={styles.noResultsText}>No products match "{productSearchQuery.trim()}"</Text>
+                )
+              ) : (
+                <ProductSuggestions
+                  products={products}
+                  favouriteIds={favouriteIds}
+                  orderStats={orderStats}
+                  onSelect={handleSuggestionSelect}
+                />
+              )}
               
               <View style={styles.productGrid}>
                 {filteredProducts.slice(0, showAllProducts ? undefined : 4).map((product) => (
@@ -396,6 +554,12 @@ export default function NewOrderModal({ visible, onClose, onSuccess }: NewOrderM
                       selectedProduct?.id === product.id && styles.selectedProductCard
                     ]}
                     onPress={() => handleProductSelect(product)}>
+                    <FavouriteButton
+                      active={favouriteIds.has(product.id)}
+                      onToggle={() => toggleFavourite(product.id)}
+                      size={16}
+                      style={styles.productCardFavourite}
+                    />
                     <Package size={20} color="#6366f1" strokeWidth={2.5} />
                     <Text style={styles.productCardName} numberOfLines={2}>
                       {product.name}
@@ -407,6 +571,7 @@ export default function NewOrderModal({ visible, onClose, onSuccess }: NewOrderM
                       </Text>
                     </View>
                     <Text style={styles.productCardUnit}>{product.unit}</Text>
+                    <PriceChangeBadge product={product} style={styles.productCardBadge} />
                   </AnimatedPressable>
                 ))}
               </View>
@@ -431,6 +596,11 @@ export default function NewOrderModal({ visible, onClose, onSuccess }: NewOrderM
                   <View style={styles.selectedProductHeader}>
                     <Package size={20} color="#6366f1" strokeWidth={2.5} />
                     <Text style={styles.selectedProductName}>{selectedProduct.name}</Text>
+                    <FavouriteButton
+                      active={favouriteIds.has(selectedProduct.id)}
+                      onToggle={() => toggleFavourite(selectedProduct.id)}
+                      style={styles.selectedProductFavourite}
+                    />
                   </View>
                   <View style={styles.selectedProductMeta}>
                     <Text style={styles.selectedProductUnit}>{selectedProduct.unit}</Text>
@@ -441,6 +611,7 @@ export default function NewOrderModal({ visible, onClose, onSuccess }: NewOrderM
                       </Text>
                     </View>
                   </View>
+                  <PriceChangeBadge product={selectedProduct} detailed style={styles.selectedProductBadge} />
                 </View>
               )}
 
@@ -459,7 +630,7 @@ export default function NewOrderModal({ visible, onClose, onSuccess }: NewOrderM
                 <Animated.View 
                   entering={FadeInUp.duration(300)}
                   style={styles.totalContainer}>
-                  <Text style={styles.totalLabel}>Total Amount</Text>
+                  <Text style={styles.totalLabel}>Line Total</Text>
                   <View style={styles.totalValue}>
                     <IndianRupee size={20} color="#10b981" strokeWidth={2.5} />
                     <Text style={styles.totalText}>{calculateTotal().toFixed(2)}</Text>
@@ -493,6 +664,21 @@ export default function NewOrderModal({ visible, onClose, onSuccess }: NewOrderM
                   textAlignVertical="top"
                 />
               </Animated.View>
+
+              <Pressable
+                style={[styles.addToCartButton, !selectedProduct && styles.addToCartButtonDisabled]}
+                onPress={handleAddToCart}
+                disabled={!selectedProduct}>
+                <Plus size={20} color="#ffffff" strokeWidth={2.5} />
+                <Text style={styles.addToCartButtonText}>Add to Cart</Text>
+              </Pressable>
+
+              <OrderCart
+                lines={cart}
+                onChangeQuantity={(productId, value) => updateCartLine(productId, { quantity: value })}
+                onChangeNotes={(productId, value) => updateCartLine(productId, { notes: value })}
+                onRemove={removeCartLine}
+              />
             </View>
           )}
         </ScrollView>
@@ -502,19 +688,21 @@ export default function NewOrderModal({ visible, onClose, onSuccess }: NewOrderM
           style={styles.footer}>
           <Pressable
             style={[styles.button, styles.cancelButton]}
-            onPress={onClose}>
+            onPress={handleClose}>
             <Text style={styles.cancelButtonText}>Cancel</Text>
           </Pressable>
           <Pressable
-            style={[styles.button, styles.submitButton]}
+            style={[styles.button, styles.submitButton, creditCheck?.blocked && styles.submitButtonDisabled]}
             onPress={handleSubmit}
-            disabled={loading}>
-            {loading ? (
+            disabled={submitting || cart.length === 0 || Boolean(creditCheck?.blocked)}>
+            {submitting ? (
               <ActivityIndicator color="#ffffff" />
             ) : (
               <View style={styles.submitButtonContent}>
                 <ShoppingCart size={20} color="#ffffff" strokeWidth={2.5} />
-                <Text style={styles.submitButtonText}>Place Order</Text>
+                <Text style={styles.submitButtonText}>
+                  {cart.length > 0 ? `Place Order · ₹${getCartTotal(cart).toFixed(2)}` : 'Place Order'}
+                </Text>
               </View>
             )}
           </Pressable>
@@ -581,6 +769,51 @@ const styles = StyleSheet.create({
     fontSize: 14,
     letterSpacing: 0.3,
   },
+  creditCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    backgroundColor: '#f8fafc',
+    padding: 16,
+    borderRadius: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  creditItem: {
+    flex: 1,
+  },
+  creditLabel: {
+    fontSize: 12,
+    color: '#64748b',
+    letterSpacing: 0.2,
+  },
+  creditValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#0f172a',
+    marginTop: 2,
+  },
+  creditValueExceeded: {
+    color: '#ef4444',
+  },
+  warningContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fffbeb',
+    padding: 16,
+    borderRadius: 16,
+    marginBottom: 16,
+    borderWidth: 2,
+    borderColor: '#fef3c7',
+  },
+  warningText: {
+    marginLeft: 12,
+    color: '#b45309',
+    flex: 1,
+    fontSize: 14,
+    letterSpacing: 0.3,
+  },
   retryButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -660,6 +893,29 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     letterSpacing: 0.3,
   },
+  productSearchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    height: 44,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    backgroundColor: '#ffffff',
+    marginBottom: 16,
+  },
+  productSearchInput: {
+    flex: 1,
+    fontSize: 14,
+    color: '#0f172a',
+  },
+  noResultsText: {
+    fontSize: 14,
+    color: '#64748b',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
   productGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -706,6 +962,14 @@ const styles = StyleSheet.create({
     color: '#64748b',
     letterSpacing: 0.2,
   },
+  productCardBadge: {
+    alignSelf: 'center',
+  },
+  productCardFavourite: {
+    position: 'absolute',
+    top: 6,
+    right: 6,
+  },
   showMoreButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -760,6 +1024,12 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     letterSpacing: 0.3,
   },
+  selectedProductBadge: {
+    marginTop: 8,
+  },
+  selectedProductFavourite: {
+    marginLeft: 'auto',
+  },
   quantityContainer: {
     marginBottom: 16,
   },
@@ -828,6 +1098,25 @@ const styles = StyleSheet.create({
     marginTop: 16,
     overflow: 'hidden',
   },
+  addToCartButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 16,
+    height: 52,
+    borderRadius: 16,
+    backgroundColor: '#6366f1',
+  },
+  addToCartButtonDisabled: {
+    opacity: 0.5,
+  },
+  addToCartButtonText: {
+    fontSize: 16,
+    color: '#ffffff',
+    fontWeight: '600',
+    letterSpacing: 0.3,
+  },
   notesInput: {
     borderRadius: 16,
     padding: 16,
@@ -870,6 +1159,9 @@ const styles = StyleSheet.create({
   submitButton: {
     backgroundColor: '#6366f1',
   },
+  submitButtonDisabled: {
+    opacity: 0.5,
+  },
   submitButtonContent: {
     flexDirection: 'row',
     alignItems: 'center',
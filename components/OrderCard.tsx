@@ -0,0 +1,226 @@
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import { Calendar, ShoppingBag, IndianRupee, CircleX as XCircle, RotateCcw } from 'lucide-react-native';
+import Animated, { FadeInUp } from 'react-native-reanimated';
+import type { Order } from '@/types/orders';
+
+const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
+
+interface OrderCardProps {
+  order: Order;
+  index?: number;
+  onPress: (order: Order) => void;
+  onCancel?: (order: Order) => void;
+  onReorder?: (order: Order) => void;
+}
+
+export function getStatusColor(status: string) {
+  switch (status.toLowerCase()) {
+    case 'processing':
+      return '#f59e0b';
+    case 'completed':
+      return '#10b981';
+    case 'canceled':
+      return '#ef4444';
+    default:
+      return '#6b7280';
+  }
+}
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+export default function OrderCard({ order, index = 0, onPress, onCancel, onReorder }: OrderCardProps) {
+  return (
+    <AnimatedPressable
+      // Only stagger the first screenful; later pages appear as they are scrolled in
+      entering={FadeInUp.duration(300).delay(Math.min(index, 8) * 100)}
+      style={styles.orderCard}
+      onPress={() => onPress(order)}>
+      <View style={styles.orderHeader}>
+        <View style={styles.orderIcon}>
+          <ShoppingBag size={20} color="#4f46e5" strokeWidth={2.5} />
+        </View>
+        <View style={styles.orderInfo}>
+          <Text style={styles.orderId}>Order #{order.id}</Text>
+          <View style={styles.dateContainer}>
+            <Calendar size={12} color="#64748b" strokeWidth={2.5} />
+            <Text style={styles.orderDate}>{formatDate(order.created_at)}</Text>
+          </View>
+        </View>
+        <View style={[
+          styles.statusBadge,
+          { backgroundColor: `${getStatusColor(order.status)}15` }
+        ]}>
+          <Text style={[
+            styles.statusText,
+            { color: getStatusColor(order.status) }
+          ]}>
+            {order.status.toUpperCase()}
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.orderDetails}>
+        <Text style={styles.productName}>{order.product_name}</Text>
+        <View style={styles.orderMetrics}>
+          <View style={styles.metricItem}>
+            <ShoppingBag size={14} color="#64748b" strokeWidth={2.5} />
+            <Text style={styles.quantity}>Qty: {order.quantity}</Text>
+          </View>
+          <View style={styles.metricItem}>
+            <IndianRupee size={14} color="#4f46e5" strokeWidth={2.5} />
+            <Text style={styles.totalPrice}>{order.total_price.toFixed(2)}</Text>
+          </View>
+          {order.status === 'processing' && onCancel && (
+            <Pressable
+              style={styles.cancelOrderButton}
+              onPress={() => onCancel(order)}>
+              <XCircle size={14} color="#ef4444" strokeWidth={2.5} />
+              <Text style={styles.cancelOrderText}>Cancel</Text>
+            </Pressable>
+          )}
+          {order.status !== 'processing' && onReorder && (
+            <Pressable
+              style={styles.reorderButton}
+              onPress={() => onReorder(order)}>
+              <RotateCcw size={14} color="#4f46e5" strokeWidth={2.5} />
+              <Text style={styles.reorderText}>Reorder</Text>
+            </Pressable>
+          )}
+        </View>
+        {order.status === 'canceled' && order.cancellation_reason && (
+          <Text style={styles.cancellationReason}>Reason: {order.cancellation_reason}</Text>
+        )}
+      </View>
+    </AnimatedPressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  orderCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#f1f5f9',
+  },
+  orderHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  orderIcon: {
+    width: 44,
+    height: 44,
+    borderRadius: 12,
+    backgroundColor: '#e0e7ff',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  orderInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  orderId: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#0f172a',
+    letterSpacing: 0.3,
+  },
+  dateContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 4,
+  },
+  orderDate: {
+    fontSize: 12,
+    color: '#64748b',
+    letterSpacing: 0.2,
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 20,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+    letterSpacing: 0.2,
+  },
+  orderDetails: {
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+    paddingTop: 16,
+  },
+  productName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#0f172a',
+    marginBottom: 12,
+    letterSpacing: 0.3,
+  },
+  orderMetrics: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  metricItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  quantity: {
+    fontSize: 14,
+    color: '#64748b',
+    letterSpacing: 0.2,
+  },
+  totalPrice: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#4f46e5',
+    letterSpacing: 0.3,
+  },
+  cancelOrderButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginLeft: 'auto',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 20,
+    backgroundColor: '#fef2f2',
+  },
+  cancelOrderText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+  reorderButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginLeft: 'auto',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 20,
+    backgroundColor: '#eef2ff',
+  },
+  reorderText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#4f46e5',
+  },
+  cancellationReason: {
+    fontSize: 13,
+    color: '#64748b',
+    marginTop: 8,
+    fontStyle: 'italic',
+  },
+});
@@ -0,0 +1,294 @@
+import { View, Text, StyleSheet, TextInput, Pressable } from 'react-native';
+import { Package, IndianRupee, Trash2, AlertTriangle, FileText } from 'lucide-react-native';
+import Animated, { FadeIn, FadeOut, LinearTransition } from 'react-native-reanimated';
+import type { Product } from '@/lib/api/catalog';
+import type { Order } from '@/types/orders';
+
+export interface CartLine {
+  product: Product;
+  quantity: string;
+  notes: string;
+  error?: string | null;
+  // Assigned on the first submit and reused on resubmits so a line is never ordered twice
+  clientRequestId?: string;
+}
+
+interface OrderCartProps {
+  lines: CartLine[];
+  onChangeQuantity: (productId: string, quantity: string) => void;
+  onChangeNotes: (productId: string, notes: string) => void;
+  onRemove: (productId: string) => void;
+}
+
+export function getLineTotal(line: CartLine): number {
+  const qty = Number(line.quantity);
+  if (isNaN(qty) || qty <= 0) return 0;
+  return qty * line.product.price_per_unit;
+}
+
+export function getCartTotal(lines: CartLine[]): number {
+  return lines.reduce((sum, line) => sum + getLineTotal(line), 0);
+}
+
+export interface ReorderResult {
+  line: CartLine | null;
+  warning: string | null;
+}
+
+// Rebuilds a past order as a cart line priced from the dealer's current chart
+export function buildReorderLine(order: Order, products: Product[]): ReorderResult {
+  const product = products.find(item => item.id === order.product_id);
+  if (!product) {
+    return {
+      line: null,
+      warning: `${order.product_name} is no longer on your price chart and could not be added.`,
+    };
+  }
+
+  const line: CartLine = {
+    product,
+    quantity: String(order.quantity),
+    notes: order.notes || '',
+    error: null,
+  };
+
+  if (product.price_per_unit !== order.price_per_unit) {
+    return {
+      line,
+      warning: `The price of ${product.name} changed from ₹${order.price_per_unit.toFixed(2)} to ₹${product.price_per_unit.toFixed(2)} since order #${order.id}.`,
+    };
+  }
+
+  return { line, warning: null };
+}
+
+export default function OrderCart({ lines, onChangeQuantity, onChangeNotes, onRemove }: OrderCartProps) {
+  if (lines.length === 0) {
+    return (
+      <View style={styles.emptyContainer}>
+        <Package size={24} color="#94a3b8" strokeWidth={2.5} />
+        <Text style={styles.emptyText}>Your cart is empty. Select a product and add it to the cart.</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.sectionTitle}>Cart ({lines.length})</Text>
+
+      {lines.map((line) => (
+        <Animated.View
+          key={line.product.id}
+          entering={FadeIn.duration(200)}
+          exiting={FadeOut.duration(200)}
+          layout={LinearTransition.springify()}
+          style={[styles.lineCard, line.error && styles.lineCardError]}>
+          <View style={styles.lineHeader}>
+            <Package size={18} color="#6366f1" strokeWidth={2.5} />
+            <View style={styles.lineInfo}>
+              <Text style={styles.lineName} numberOfLines={2}>{line.product.name}</Text>
+              <Text style={styles.lineMeta}>
+                {line.product.unit} · ₹{line.product.price_per_unit.toFixed(2)} each
+              </Text>
+            </View>
+            <Pressable
+              style={styles.removeButton}
+              onPress={() => onRemove(line.product.id)}>
+              <Trash2 size={18} color="#ef4444" strokeWidth={2.5} />
+            </Pressable>
+          </View>
+
+          <View style={styles.lineControls}>
+            <TextInput
+              style={styles.lineQuantityInput}
+              keyboardType="numeric"
+              placeholder="Qty"
+              value={line.quantity}
+              onChangeText={(value) => onChangeQuantity(line.product.id, value)}
+            />
+            <View style={styles.lineTotal}>
+              <IndianRupee size={14} color="#10b981" strokeWidth={2.5} />
+              <Text style={styles.lineTotalText}>{getLineTotal(line).toFixed(2)}</Text>
+            </View>
+          </View>
+
+          <View style={styles.lineNotes}>
+            <FileText size={14} color="#64748b" strokeWidth={2.5} />
+            <TextInput
+              style={styles.lineNotesInput}
+              placeholder="Notes for this product"
+              value={line.notes}
+              onChangeText={(value) => onChangeNotes(line.product.id, value)}
+            />
+          </View>
+
+          {line.error && (
+            <View style={styles.lineError}>
+              <AlertTriangle size={14} color="#ef4444" strokeWidth={2.5} />
+              <Text style={styles.lineErrorText}>{line.error}</Text>
+            </View>
+          )}
+        </Animated.View>
+      ))}
+
+      <View style={styles.grandTotalContainer}>
+        <Text style={styles.grandTotalLabel}>Grand Total</Text>
+        <View style={styles.grandTotalValue}>
+          <IndianRupee size={20} color="#10b981" strokeWidth={2.5} />
+          <Text style={styles.grandTotalText}>{getCartTotal(lines).toFixed(2)}</Text>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#0f172a',
+    marginBottom: 16,
+    letterSpacing: 0.3,
+  },
+  emptyContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 24,
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 2,
+    borderStyle: 'dashed',
+    borderColor: '#e2e8f0',
+  },
+  emptyText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#64748b',
+    letterSpacing: 0.2,
+  },
+  lineCard: {
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 2,
+    borderColor: '#e0e7ff',
+    marginBottom: 12,
+    gap: 12,
+  },
+  lineCardError: {
+    borderColor: '#fecaca',
+    backgroundColor: '#fef2f2',
+  },
+  lineHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  lineInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  lineName: {
+    fontSize: 15,
+    color: '#0f172a',
+    fontWeight: '600',
+    letterSpacing: 0.3,
+  },
+  lineMeta: {
+    fontSize: 12,
+    color: '#64748b',
+    letterSpacing: 0.2,
+  },
+  removeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#fee2e2',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  lineControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  lineQuantityInput: {
+    width: 100,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+    color: '#0f172a',
+    borderWidth: 2,
+    borderColor: '#e0e7ff',
+    backgroundColor: '#f8fafc',
+  },
+  lineTotal: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  lineTotalText: {
+    fontSize: 16,
+    color: '#10b981',
+    fontWeight: '600',
+    letterSpacing: 0.3,
+  },
+  lineNotes: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    backgroundColor: '#f8fafc',
+  },
+  lineNotesInput: {
+    flex: 1,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#0f172a',
+  },
+  lineError: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  lineErrorText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#ef4444',
+    letterSpacing: 0.2,
+  },
+  grandTotalContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#f0fdf4',
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 2,
+    borderColor: '#dcfce7',
+  },
+  grandTotalLabel: {
+    fontSize: 16,
+    color: '#064e3b',
+    fontWeight: '600',
+    letterSpacing: 0.3,
+  },
+  grandTotalValue: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  grandTotalText: {
+    fontSize: 24,
+    color: '#10b981',
+    fontWeight: '700',
+    letterSpacing: 0.5,
+  },
+});
@@ -0,0 +1,431 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  Pressable,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { X, SlidersHorizontal, Check } from 'lucide-react-native';
+import Animated, { FadeInUp } from 'react-native-reanimated';
+import type { Order, OrderFilters, OrderedProduct } from '@/types/orders';
+import { daysAgo, toDateString } from '@/lib/dates';
+
+const STATUS_OPTIONS: { value: Order['status']; label: string; color: string }[] = [
+  { value: 'processing', label: 'Processing', color: '#f59e0b' },
+  { value: 'completed', label: 'Completed', color: '#10b981' },
+  { value: 'canceled', label: 'Canceled', color: '#ef4444' },
+];
+
+const DATE_PRESETS = [
+  { key: '7d', label: 'Last 7 days', days: 7 },
+  { key: '30d', label: 'Last 30 days', days: 30 },
+  { key: '90d', label: 'Last 90 days', days: 90 },
+  { key: '365d', label: 'Last year', days: 365 },
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export type FilterChipKey = 'statuses' | 'date' | 'product' | 'amount';
+
+export interface FilterChip {
+  key: FilterChipKey;
+  label: string;
+}
+
+export function getActiveFilterChips(filters: OrderFilters): FilterChip[] {
+  const chips: FilterChip[] = [];
+
+  if (filters.statuses && filters.statuses.length > 0) {
+    chips.push({
+      key: 'statuses',
+      label: filters.statuses.map(status => status.charAt(0).toUpperCase() + status.slice(1)).join(', '),
+    });
+  }
+  if (filters.dateFrom || filters.dateTo) {
+    chips.push({
+      key: 'date',
+      label: filters.dateFrom && filters.dateTo
+        ? `${filters.dateFrom} – ${filters.dateTo}`
+        : filters.dateFrom ? `From ${filters.dateFrom}` : `Until ${filters.dateTo}`,
+    });
+  }
+  if (filters.productId) {
+    chips.push({ key: 'product', label: filters.productName || 'Product' });
+  }
+  if (filters.minAmount != null || filters.maxAmount != null) {
+    chips.push({
+      key: 'amount',
+      label: filters.minAmount != null && filters.maxAmount != null
+        ? `₹${filters.minAmount} – ₹${filters.maxAmount}`
+        : filters.minAmount != null ? `≥ ₹${filters.minAmount}` : `≤ ₹${filters.maxAmount}`,
+    });
+  }
+
+  return chips;
+}
+
+export function removeFilterGroup(filters: OrderFilters, key: FilterChipKey): OrderFilters {
+  switch (key) {
+    case 'statuses':
+      return { ...filters, statuses: [] };
+    case 'date':
+      return { ...filters, dateFrom: null, dateTo: null };
+    case 'product':
+      return { ...filters, productId: null, productName: null };
+    case 'amount':
+      return { ...filters, minAmount: null, maxAmount: null };
+  }
+}
+
+interface OrderFilterSheetProps {
+  visible: boolean;
+  filters: OrderFilters;
+  products: OrderedProduct[];
+  onClose: () => void;
+  onApply: (filters: OrderFilters) => void;
+}
+
+export default function OrderFilterSheet({ visible, filters, products, onClose, onApply }: OrderFilterSheetProps) {
+  const [statuses, setStatuses] = useState<Order['status'][]>([]);
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [productId, setProductId] = useState<string | null>(null);
+  const [minAmount, setMinAmount] = useState('');
+  const [maxAmount, setMaxAmount] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the currently applied filters every time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setStatuses(filters.statuses || []);
+      setDateFrom(filters.dateFrom || '');
+      setDateTo(filters.dateTo || '');
+      setProductId(filters.productId || null);
+      setMinAmount(filters.minAmount != null ? String(filters.minAmount) : '');
+      setMaxAmount(filters.maxAmount != null ? String(filters.maxAmount) : '');
+      setError(null);
+    }
+  }, [visible, filters]);
+
+  const toggleStatus = (status: Order['status']) => {
+    setStatuses(prev =>
+      prev.includes(status) ? prev.filter(s => s !== status) : [...prev, status]
+    );
+  };
+
+  const applyPreset = (days: number) => {
+    setDateFrom(daysAgo(days));
+    setDateTo(toDateString(new Date()));
+  };
+
+  const handleReset = () => {
+    setStatuses([]);
+    setDateFrom('');
+    setDateTo('');
+    setProductId(null);
+    setMinAmount('');
+    setMaxAmount('');
+    setError(null);
+  };
+
+  const handleApply = () => {
+    const from = dateFrom.trim();
+    const to = dateTo.trim();
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+      setError('Dates must be in YYYY-MM-DD format');
+      return;
+    }
+    if (from && to && from > to) {
+      setError('The start date must be before the end date');
+      return;
+    }
+
+    const min = minAmount.trim() ? Number(minAmount) : null;
+    const max = maxAmount.trim() ? Number(maxAmount) : null;
+    if ((min != null && (isNaN(min) || min < 0)) || (max != null && (isNaN(max) || max < 0))) {
+      setError('Please enter valid amounts');
+      return;
+    }
+    if (min != null && max != null && min > max) {
+      setError('The minimum amount must not exceed the maximum');
+      return;
+    }
+
+    onApply({
+      statuses,
+      dateFrom: from || null,
+      dateTo: to || null,
+      productId,
+      productName: products.find(product => product.id === productId)?.name || null,
+      minAmount: min,
+      maxAmount: max,
+    });
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <Animated.View entering={FadeInUp.duration(300)} style={styles.sheet}>
+          <View style={styles.header}>
+            <View style={styles.headerTitleContainer}>
+              <SlidersHorizontal size={20} color="#4f46e5" strokeWidth={2.5} />
+              <Text style={styles.headerTitle}>Filter Orders</Text>
+            </View>
+            <Pressable style={styles.closeButton} onPress={onClose}>
+              <X size={20} color="#64748b" strokeWidth={2.5} />
+            </Pressable>
+          </View>
+
+          <ScrollView style={styles.body} showsVerticalScrollIndicator={false}>
+            <Text style={styles.sectionTitle}>Status</Text>
+            <View style={styles.chipRow}>
+              {STATUS_OPTIONS.map(option => {
+                const selected = statuses.includes(option.value);
+                return (
+                  <Pressable
+                    key={option.value}
+                    style={[styles.chip, selected && { borderColor: option.color, backgroundColor: `${option.color}15` }]}
+                    onPress={() => toggleStatus(option.value)}>
+                    {selected && <Check size={14} color={option.color} strokeWidth={2.5} />}
+                    <Text style={[styles.chipText, selected && { color: option.color, fontWeight: '600' }]}>
+                      {option.label}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            <Text style={styles.sectionTitle}>Date range</Text>
+            <View style={styles.chipRow}>
+              {DATE_PRESETS.map(preset => (
+                <Pressable
+                  key={preset.key}
+                  style={styles.chip}
+                  onPress={() => applyPreset(preset.days)}>
+                  <Text style={styles.chipText}>{preset.label}</Text>
+                </Pressable>
+              ))}
+            </View>
+            <View style={styles.inputRow}>
+              <TextInput
+                style={styles.input}
+                placeholder="From (YYYY-MM-DD)"
+                placeholderTextColor="#94a3b8"
+                value={dateFrom}
+                onChangeText={setDateFrom}
+                autoCapitalize="none"
+              />
+              <TextInput
+                style={styles.input}
+                placeholder="To (YYYY-MM-DD)"
+                placeholderTextColor="#94a3b8"
+                value={dateTo}
+                onChangeText={setDateTo}
+                autoCapitalize="none"
+              />
+            </View>
+
+            <Text style={styles.sectionTitle}>Product</Text>
+            <View style={styles.chipRow}>
+              {products.length === 0 ? (
+                <Text style={styles.hintText}>No products ordered yet</Text>
+              ) : (
+                products.map(product => {
+                  const selected = productId === product.id;
+                  return (
+                    <Pressable
+                      key={product.id}
+                      style={[styles.chip, selected && styles.chipSelected]}
+                      onPress={() => setProductId(selected ? null : product.id)}>
+                      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                        {product.name}
+                      </Text>
+                    </Pressable>
+                  );
+                })
+              )}
+            </View>
+
+            <Text style={styles.sectionTitle}>Order amount (₹)</Text>
+            <View style={styles.inputRow}>
+              <TextInput
+                style={styles.input}
+                placeholder="Min"
+                placeholderTextColor="#94a3b8"
+                keyboardType="numeric"
+                value={minAmount}
+                onChangeText={setMinAmount}
+              />
+              <TextInput
+                style={styles.input}
+                placeholder="Max"
+                placeholderTextColor="#94a3b8"
+                keyboardType="numeric"
+                value={maxAmount}
+                onChangeText={setMaxAmount}
+              />
+            </View>
+
+            {error && <Text style={styles.errorText}>{error}</Text>}
+          </ScrollView>
+
+          <View style={styles.actions}>
+            <Pressable style={[styles.button, styles.resetButton]} onPress={handleReset}>
+              <Text style={styles.resetButtonText}>Reset</Text>
+            </Pressable>
+            <Pressable style={[styles.button, styles.applyButton]} onPress={handleApply}>
+              <Text style={styles.applyButtonText}>Apply Filters</Text>
+            </Pressable>
+          </View>
+        </Animated.View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(15, 23, 42, 0.5)',
+  },
+  sheet: {
+    maxHeight: '85%',
+    backgroundColor: '#ffffff',
+    borderTopLeftRadius: 32,
+    borderTopRightRadius: 32,
+    paddingTop: 24,
+    paddingBottom: Platform.OS === 'ios' ? 40 : 24,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    marginBottom: 8,
+  },
+  headerTitleContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#0f172a',
+    letterSpacing: 0.3,
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#f1f5f9',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  body: {
+    paddingHorizontal: 24,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+    marginTop: 16,
+    marginBottom: 8,
+    letterSpacing: 0.2,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  chipSelected: {
+    borderColor: '#4f46e5',
+    backgroundColor: '#eef2ff',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#64748b',
+  },
+  chipTextSelected: {
+    color: '#4f46e5',
+    fontWeight: '600',
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#94a3b8',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  input: {
+    flex: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#0f172a',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    backgroundColor: '#f8fafc',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#ef4444',
+    marginTop: 16,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingHorizontal: 24,
+    paddingTop: 16,
+  },
+  button: {
+    flex: 1,
+    height: 52,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  resetButton: {
+    backgroundColor: '#f1f5f9',
+    borderWidth: 2,
+    borderColor: '#e2e8f0',
+  },
+  resetButtonText: {
+    fontSize: 16,
+    color: '#64748b',
+    fontWeight: '600',
+  },
+  applyButton: {
+    backgroundColor: '#4f46e5',
+  },
+  applyButtonText: {
+    fontSize: 16,
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,61 @@
+import { Text, StyleSheet, Pressable } from 'react-native';
+import { CircleCheck as CheckCircle, CircleX as XCircle, X } from 'lucide-react-native';
+import Animated, { FadeInUp, FadeOutUp } from 'react-native-reanimated';
+import type { OrderChange } from '@/types/orders';
+
+interface OrderStatusBannerProps {
+  change: OrderChange | null;
+  onPress?: (change: OrderChange) => void;
+  onDismiss: () => void;
+}
+
+export default function OrderStatusBanner({ change, onPress, onDismiss }: OrderStatusBannerProps) {
+  if (!change) return null;
+
+  const completed = change.order.status === 'completed';
+  const color = completed ? '#10b981' : '#ef4444';
+
+  return (
+    <Animated.View
+      entering={FadeInUp.duration(300)}
+      exiting={FadeOutUp.duration(200)}
+      style={[styles.banner, { borderColor: `${color}30`, backgroundColor: `${color}10` }]}>
+      <Pressable style={styles.content} onPress={() => onPress?.(change)}>
+        {completed ? (
+          <CheckCircle size={18} color={color} strokeWidth={2.5} />
+        ) : (
+          <XCircle size={18} color={color} strokeWidth={2.5} />
+        )}
+        <Text style={styles.text} numberOfLines={2}>
+          Order #{change.order.id} ({change.order.product_name}) was {change.order.status}
+        </Text>
+      </Pressable>
+      <Pressable onPress={onDismiss} hitSlop={8}>
+        <X size={16} color="#64748b" strokeWidth={2.5} />
+      </Pressable>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    marginBottom: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  content: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  text: {
+    flex: 1,
+    fontSize: 14,
+    color: '#0f172a',
+  },
+});
@@ -0,0 +1,170 @@
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import { CloudOff, IndianRupee, ShoppingBag, RefreshCw, Trash2 } from 'lucide-react-native';
+import Animated, { FadeInUp } from 'react-native-reanimated';
+import type { PendingOrder } from '@/lib/order-outbox';
+
+interface PendingOrderCardProps {
+  entry: PendingOrder;
+  onRetry: (clientRequestId: string) => void;
+  onDiscard: (clientRequestId: string) => void;
+}
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export default function PendingOrderCard({ entry, onRetry, onDiscard }: PendingOrderCardProps) {
+  const { order } = entry;
+  const statusColor = entry.failed ? '#ef4444' : '#64748b';
+
+  return (
+    <Animated.View entering={FadeInUp.duration(300)} style={styles.card}>
+      <View style={styles.header}>
+        <View style={styles.icon}>
+          <CloudOff size={20} color={statusColor} strokeWidth={2.5} />
+        </View>
+        <View style={styles.info}>
+          <Text style={styles.productName}>{order.product_name}</Text>
+          <Text style={styles.queuedAt}>Saved {formatDate(entry.queued_at)}</Text>
+        </View>
+        <View style={[styles.statusBadge, { backgroundColor: `${statusColor}15` }]}>
+          <Text style={[styles.statusText, { color: statusColor }]}>
+            {entry.failed ? 'SYNC FAILED' : 'PENDING SYNC'}
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.metrics}>
+        <View style={styles.metricItem}>
+          <ShoppingBag size={14} color="#64748b" strokeWidth={2.5} />
+          <Text style={styles.quantity}>Qty: {order.quantity}</Text>
+        </View>
+        <View style={styles.metricItem}>
+          <IndianRupee size={14} color="#4f46e5" strokeWidth={2.5} />
+          <Text style={styles.totalPrice}>{order.total_price.toFixed(2)}</Text>
+        </View>
+      </View>
+
+      {entry.failed && entry.last_error && (
+        <Text style={styles.errorText}>{entry.last_error}</Text>
+      )}
+
+      <View style={styles.actions}>
+        {entry.failed && (
+          <Pressable style={styles.actionButton} onPress={() => onRetry(entry.client_request_id)}>
+            <RefreshCw size={14} color="#4f46e5" strokeWidth={2.5} />
+            <Text style={styles.retryText}>Retry</Text>
+          </Pressable>
+        )}
+        <Pressable style={styles.actionButton} onPress={() => onDiscard(entry.client_request_id)}>
+          <Trash2 size={14} color="#ef4444" strokeWidth={2.5} />
+          <Text style={styles.discardText}>Discard</Text>
+        </Pressable>
+      </View>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    borderStyle: 'dashed',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  icon: {
+    width: 44,
+    height: 44,
+    borderRadius: 12,
+    backgroundColor: '#f1f5f9',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  info: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  productName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#0f172a',
+    letterSpacing: 0.3,
+  },
+  queuedAt: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 4,
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 20,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+    letterSpacing: 0.2,
+  },
+  metrics: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  metricItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  quantity: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  totalPrice: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#4f46e5',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#ef4444',
+    marginTop: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 20,
+    backgroundColor: '#f8fafc',
+  },
+  retryText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#4f46e5',
+  },
+  discardText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+});
@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { View, Text, StyleSheet, Pressable, ActivityIndicator } from 'react-native';
+import { Clock, CircleX as XCircle, IndianRupee, Calendar, Image as ImageIcon } from 'lucide-react-native';
+import Animated, { FadeInUp } from 'react-native-reanimated';
+import * as WebBrowser from 'expo-web-browser';
+import { getReceiptUrl, PAYMENT_MODES } from '@/lib/api/payments';
+import type { PaymentReport } from '@/types/payments';
+
+interface PendingPaymentCardProps {
+  report: PaymentReport;
+}
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+export default function PendingPaymentCard({ report }: PendingPaymentCardProps) {
+  const [openingReceipt, setOpeningReceipt] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const rejected = report.status === 'rejected';
+  const statusColor = rejected ? '#ef4444' : '#f59e0b';
+  const modeLabel = PAYMENT_MODES.find(mode => mode.value === report.mode)?.label || report.mode;
+
+  const openReceipt = async () => {
+    if (!report.receipt_path) return;
+
+    try {
+      setOpeningReceipt(true);
+      setError(null);
+      await WebBrowser.openBrowserAsync(await getReceiptUrl(report.receipt_path));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load receipt');
+    } finally {
+      setOpeningReceipt(false);
+    }
+  };
+
+  return (
+    <Animated.View entering={FadeInUp.duration(300)} style={styles.card}>
+      <View style={styles.header}>
+        <View style={[styles.icon, { backgroundColor: `${statusColor}15` }]}>
+          {rejected
+            ? <XCircle size={20} color={statusColor} strokeWidth={2.5} />
+            : <Clock size={20} color={statusColor} strokeWidth={2.5} />}
+        </View>
+        <View style={styles.info}>
+          <Text style={styles.mode}>{modeLabel}</Text>
+          <View style={styles.dateContainer}>
+            <Calendar size={12} color="#64748b" strokeWidth={2.5} />
+            <Text style={styles.date}>{formatDate(report.payment_date)}</Text>
+          </View>
+        </View>
+        <View style={styles.amountContainer}>
+          <IndianRupee size={14} color="#10b981" strokeWidth={2.5} />
+          <Text style={styles.amount}>{Number(report.amount).toFixed(2)}</Text>
+        </View>
+      </View>
+
+      <View style={styles.footer}>
+        <View style={[styles.statusBadge, { backgroundColor: `${statusColor}15` }]}>
+          <Text style={[styles.statusText, { color: statusColor }]}>
+            {rejected ? 'REJECTED' : 'AWAITING APPROVAL'}
+          </Text>
+        </View>
+        {report.reference_number && (
+          <Text style={styles.reference}>Ref {report.reference_number}</Text>
+        )}
+        {report.receipt_path && (
+          <Pressable style={styles.receiptButton} onPress={openReceipt} disabled={openingReceipt}>
+            {openingReceipt
+              ? <ActivityIndicator size="small" color="#4f46e5" />
+              : <ImageIcon size={14} color="#4f46e5" strokeWidth={2.5} />}
+            <Text style={styles.receiptText}>Receipt</Text>
+          </Pressable>
+        )}
+      </View>
+
+      {rejected && report.review_notes && (
+        <Text style={styles.errorText}>{report.review_notes}</Text>
+      )}
+      {error && <Text style={styles.errorText}>{error}</Text>}
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    borderStyle: 'dashed',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  icon: {
+    width: 44,
+    height: 44,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  info: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  mode: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#0f172a',
+    letterSpacing: 0.3,
+  },
+  dateContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 4,
+  },
+  date: {
+    fontSize: 12,
+    color: '#64748b',
+    letterSpacing: 0.2,
+  },
+  amountContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  amount: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#10b981',
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 20,
+  },
+  statusText: {
+    fontSize: 11,
+    fontWeight: '600',
+    letterSpacing: 0.2,
+  },
+  reference: {
+    flex: 1,
+    fontSize: 13,
+    color: '#475569',
+  },
+  receiptButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginLeft: 'auto',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 20,
+    backgroundColor: '#eef2ff',
+  },
+  receiptText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#4f46e5',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#ef4444',
+    marginTop: 8,
+  },
+});
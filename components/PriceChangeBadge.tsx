@@ -0,0 +1,56 @@
+import { View, Text, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { TrendingUp, TrendingDown } from 'lucide-react-native';
+import type { Product } from '@/lib/api/catalog';
+
+interface PriceChangeBadgeProps {
+  product: Product;
+  // Spell out the new price and date instead of the short form used on product cards
+  detailed?: boolean;
+  style?: StyleProp<ViewStyle>;
+}
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+export default function PriceChangeBadge({ product, detailed = false, style }: PriceChangeBadgeProps) {
+  const upcoming = product.upcoming_price;
+  if (!upcoming) return null;
+
+  const increase = upcoming.price_per_unit > product.price_per_unit;
+  // Red for dealers means "order before the increase", green means "worth waiting for"
+  const color = increase ? '#ef4444' : '#10b981';
+  const Icon = increase ? TrendingUp : TrendingDown;
+  const date = formatDate(upcoming.effective_date);
+
+  return (
+    <View style={[styles.badge, { backgroundColor: `${color}15` }, style]}>
+      <Icon size={12} color={color} strokeWidth={2.5} />
+      <Text style={[styles.text, { color }]} numberOfLines={detailed ? undefined : 1}>
+        {detailed
+          ? `${increase ? 'Increases' : 'Drops'} to ₹${upcoming.price_per_unit.toFixed(2)} on ${date}`
+          : `₹${upcoming.price_per_unit.toFixed(2)} from ${date}`}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  text: {
+    flexShrink: 1,
+    fontSize: 11,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,174 @@
+import { useMemo } from 'react';
+import { View, Text, StyleSheet, ScrollView, Pressable } from 'react-native';
+import { Star, Repeat, TrendingUp, IndianRupee } from 'lucide-react-native';
+import type { Product } from '@/lib/api/catalog';
+import { getDueForReorder, getFrequentlyOrdered, type ProductOrderStats } from '@/lib/order-suggestions';
+
+interface ProductSuggestionsProps {
+  products: Product[];
+  favouriteIds: Set<string>;
+  orderStats: ProductOrderStats[];
+  // quantity is null when the dealer has never ordered the product
+  onSelect: (product: Product, quantity: number | null) => void;
+}
+
+interface Suggestion {
+  product: Product;
+  quantity: number | null;
+  detail: string;
+}
+
+interface SuggestionGroup {
+  key: string;
+  title: string;
+  icon: typeof Star;
+  color: string;
+  items: Suggestion[];
+}
+
+function describeQuantity(stats: ProductOrderStats | undefined) {
+  return stats && stats.typicalQuantity > 0 ? `Usually ${stats.typicalQuantity} ${stats.unit}` : 'Not ordered yet';
+}
+
+export default function ProductSuggestions({ products, favouriteIds, orderStats, onSelect }: ProductSuggestionsProps) {
+  const groups = useMemo(() => {
+    const productsById = new Map(products.map(product => [product.id, product]));
+    // Only products still on the price chart can be suggested
+    const statsOnChart = orderStats.filter(stats => productsById.has(stats.productId));
+    const statsById = new Map(statsOnChart.map(stats => [stats.productId, stats]));
+
+    const toSuggestion = (stats: ProductOrderStats, detail: string): Suggestion => ({
+      product: productsById.get(stats.productId)!,
+      quantity: stats.typicalQuantity > 0 ? stats.typicalQuantity : null,
+      detail,
+    });
+
+    const favourites: Suggestion[] = Array.from(favouriteIds)
+      .filter(id => productsById.has(id))
+      .map(id => {
+        const stats = statsById.get(id);
+        return {
+          product: productsById.get(id)!,
+          quantity: stats && stats.typicalQuantity > 0 ? stats.typicalQuantity : null,
+          detail: describeQuantity(stats),
+        };
+      });
+
+    const due = getDueForReorder(statsOnChart);
+    const dueIds = new Set(due.map(stats => stats.productId));
+    const frequent = getFrequentlyOrdered(statsOnChart.filter(stats => !dueIds.has(stats.productId)));
+
+    const result: SuggestionGroup[] = [
+      { key: 'favourites', title: 'Favourites', icon: Star, color: '#f59e0b', items: favourites },
+      {
+        key: 'due',
+        title: 'Usually reorder around now',
+        icon: Repeat,
+        color: '#10b981',
+        items: due.map(stats => toSuggestion(
+          stats,
+          `Every ~${stats.typicalIntervalDays}d · last ${stats.daysSinceLastOrder}d ago`
+        )),
+      },
+      {
+        key: 'frequent',
+        title: 'Frequently ordered',
+        icon: TrendingUp,
+        color: '#6366f1',
+        items: frequent.map(stats => toSuggestion(stats, `${stats.orderCount} orders · ${describeQuantity(stats).toLowerCase()}`)),
+      },
+    ];
+    return result.filter(group => group.items.length > 0);
+  }, [products, favouriteIds, orderStats]);
+
+  if (groups.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      {groups.map(group => (
+        <View key={group.key} style={styles.group}>
+          <View style={styles.groupHeader}>
+            <group.icon size={16} color={group.color} strokeWidth={2.5} />
+            <Text style={styles.groupTitle}>{group.title}</Text>
+          </View>
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.row}
+            keyboardShouldPersistTaps="handled">
+            {group.items.map(item => (
+              <Pressable
+                key={item.product.id}
+                style={[styles.card, { borderColor: `${group.color}40` }]}
+                onPress={() => onSelect(item.product, item.quantity)}>
+                <Text style={styles.name} numberOfLines={1}>{item.product.name}</Text>
+                <View style={styles.priceRow}>
+                  <IndianRupee size={12} color="#6366f1" strokeWidth={2.5} />
+                  <Text style={styles.price}>{item.product.price_per_unit.toFixed(2)}</Text>
+                  <Text style={styles.unit}>/ {item.product.unit}</Text>
+                </View>
+                <Text style={styles.detail} numberOfLines={1}>{item.detail}</Text>
+              </Pressable>
+            ))}
+          </ScrollView>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 16,
+    marginBottom: 16,
+  },
+  group: {
+    gap: 8,
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  groupTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0f172a',
+    letterSpacing: 0.2,
+  },
+  row: {
+    gap: 8,
+  },
+  card: {
+    width: 160,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 2,
+    backgroundColor: '#ffffff',
+    gap: 4,
+  },
+  name: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#0f172a',
+  },
+  priceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  price: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+  unit: {
+    fontSize: 12,
+    color: '#64748b',
+    marginLeft: 2,
+  },
+  detail: {
+    fontSize: 11,
+    color: '#64748b',
+  },
+});
@@ -0,0 +1,360 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  Pressable,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+  Image,
+} from 'react-native';
+import { X, Receipt, Camera, ImagePlus, Trash2 } from 'lucide-react-native';
+import Animated, { FadeInUp } from 'react-native-reanimated';
+import * as ImagePicker from 'expo-image-picker';
+import { useAuth } from '@/providers/AuthProvider';
+import { reportPayment, PAYMENT_MODES } from '@/lib/api/payments';
+import { toDateString } from '@/lib/dates';
+import type { PaymentMode, ReceiptImage } from '@/types/payments';
+
+interface ReportPaymentModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+export default function ReportPaymentModal({ visible, onClose, onSuccess }: ReportPaymentModalProps) {
+  const { profile } = useAuth();
+  const [amount, setAmount] = useState('');
+  const [paymentDate, setPaymentDate] = useState('');
+  const [mode, setMode] = useState<PaymentMode>('upi');
+  const [referenceNumber, setReferenceNumber] = useState('');
+  const [receipt, setReceipt] = useState<ReceiptImage | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from a blank form dated today every time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setAmount('');
+      setPaymentDate(toDateString(new Date()));
+      setMode('upi');
+      setReferenceNumber('');
+      setReceipt(null);
+      setError(null);
+    }
+  }, [visible]);
+
+  const pickReceipt = async (source: 'camera' | 'library') => {
+    try {
+      setError(null);
+      const permission = source === 'camera'
+        ? await ImagePicker.requestCameraPermissionsAsync()
+        : await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (!permission.granted) {
+        setError(source === 'camera'
+          ? 'Camera access is needed to photograph the receipt'
+          : 'Photo library access is needed to attach the receipt');
+        return;
+      }
+
+      const options: ImagePicker.ImagePickerOptions = { mediaTypes: ['images'], quality: 0.7 };
+      const result = source === 'camera'
+        ? await ImagePicker.launchCameraAsync(options)
+        : await ImagePicker.launchImageLibraryAsync(options);
+
+      if (!result.canceled && result.assets[0]) {
+        setReceipt({ uri: result.assets[0].uri, mimeType: result.assets[0].mimeType });
+      }
+    } catch (err) {
+      console.error('Error picking receipt:', err);
+      setError('Failed to attach the receipt');
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!profile?.user_id) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      await reportPayment(profile.user_id, {
+        amount: Number(amount),
+        payment_date: paymentDate.trim(),
+        mode,
+        reference_number: referenceNumber,
+      }, receipt);
+      onSuccess();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to report payment');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <Animated.View entering={FadeInUp.duration(300)} style={styles.sheet}>
+          <View style={styles.header}>
+            <View style={styles.headerTitleContainer}>
+              <Receipt size={20} color="#4f46e5" strokeWidth={2.5} />
+              <Text style={styles.headerTitle}>Report Payment</Text>
+            </View>
+            <Pressable style={styles.closeButton} onPress={onClose}>
+              <X size={20} color="#64748b" strokeWidth={2.5} />
+            </Pressable>
+          </View>
+
+          <ScrollView style={styles.body} showsVerticalScrollIndicator={false}>
+            <Text style={styles.hintText}>
+              Reported payments are checked by our accounts team before they appear in your ledger.
+            </Text>
+
+            <Text style={styles.sectionTitle}>Amount (₹)</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="0.00"
+              placeholderTextColor="#94a3b8"
+              keyboardType="decimal-pad"
+              value={amount}
+              onChangeText={setAmount}
+            />
+
+            <Text style={styles.sectionTitle}>Payment date</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor="#94a3b8"
+              value={paymentDate}
+              onChangeText={setPaymentDate}
+              autoCapitalize="none"
+            />
+
+            <Text style={styles.sectionTitle}>Mode</Text>
+            <View style={styles.chipRow}>
+              {PAYMENT_MODES.map(option => {
+                const selected = mode === option.value;
+                return (
+                  <Pressable
+                    key={option.value}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => setMode(option.value)}>
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                      {option.label}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            <Text style={styles.sectionTitle}>
+              Reference number{mode === 'cash' ? ' (optional)' : ''}
+            </Text>
+            <TextInput
+              style={styles.input}
+              placeholder={mode === 'cheque' ? 'Cheque number' : mode === 'upi' ? 'UPI transaction ID' : 'Reference'}
+              placeholderTextColor="#94a3b8"
+              value={referenceNumber}
+              onChangeText={setReferenceNumber}
+              autoCapitalize="characters"
+            />
+
+            <Text style={styles.sectionTitle}>Receipt</Text>
+            {receipt ? (
+              <View style={styles.receiptPreview}>
+                <Image source={{ uri: receipt.uri }} style={styles.receiptImage} />
+                <Pressable style={styles.removeReceipt} onPress={() => setReceipt(null)}>
+                  <Trash2 size={16} color="#ef4444" strokeWidth={2.5} />
+                  <Text style={styles.removeReceiptText}>Remove</Text>
+                </Pressable>
+              </View>
+            ) : (
+              <View style={styles.chipRow}>
+                {Platform.OS !== 'web' && (
+                  <Pressable style={styles.chip} onPress={() => pickReceipt('camera')}>
+                    <Camera size={14} color="#64748b" strokeWidth={2.5} />
+                    <Text style={styles.chipText}>Take photo</Text>
+                  </Pressable>
+                )}
+                <Pressable style={styles.chip} onPress={() => pickReceipt('library')}>
+                  <ImagePlus size={14} color="#64748b" strokeWidth={2.5} />
+                  <Text style={styles.chipText}>Choose photo</Text>
+                </Pressable>
+              </View>
+            )}
+
+            {error && <Text style={styles.errorText}>{error}</Text>}
+          </ScrollView>
+
+          <View style={styles.actions}>
+            <Pressable
+              style={[styles.submitButton, submitting && styles.submitButtonDisabled]}
+              onPress={handleSubmit}
+              disabled={submitting}>
+              {submitting ? (
+                <ActivityIndicator color="#ffffff" />
+              ) : (
+                <Text style={styles.submitButtonText}>Submit for approval</Text>
+              )}
+            </Pressable>
+          </View>
+        </Animated.View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(15, 23, 42, 0.5)',
+  },
+  sheet: {
+    maxHeight: '90%',
+    backgroundColor: '#ffffff',
+    borderTopLeftRadius: 32,
+    borderTopRightRadius: 32,
+    paddingTop: 24,
+    paddingBottom: Platform.OS === 'ios' ? 40 : 24,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    marginBottom: 8,
+  },
+  headerTitleContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#0f172a',
+    letterSpacing: 0.3,
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#f1f5f9',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  body: {
+    paddingHorizontal: 24,
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#64748b',
+    marginTop: 4,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+    marginTop: 16,
+    marginBottom: 8,
+    letterSpacing: 0.2,
+  },
+  input: {
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#0f172a',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    backgroundColor: '#f8fafc',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  chipSelected: {
+    borderColor: '#4f46e5',
+    backgroundColor: '#eef2ff',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#64748b',
+  },
+  chipTextSelected: {
+    color: '#4f46e5',
+    fontWeight: '600',
+  },
+  receiptPreview: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  receiptImage: {
+    width: 80,
+    height: 80,
+    borderRadius: 12,
+    backgroundColor: '#f1f5f9',
+  },
+  removeReceipt: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 20,
+    backgroundColor: '#fef2f2',
+  },
+  removeReceiptText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#ef4444',
+    marginTop: 16,
+  },
+  actions: {
+    paddingHorizontal: 24,
+    paddingTop: 16,
+  },
+  submitButton: {
+    height: 52,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#4f46e5',
+  },
+  submitButtonDisabled: {
+    opacity: 0.7,
+  },
+  submitButtonText: {
+    fontSize: 16,
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+});
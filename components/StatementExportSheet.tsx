@@ -0,0 +1,315 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  Pressable,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import { X, Download, FileText, Sheet } from 'lucide-react-native';
+import Animated, { FadeInUp } from 'react-native-reanimated';
+import { type Statement, getStatementPeriod } from '@/lib/finance-statement';
+import { toDateString } from '@/lib/dates';
+import { type StatementFormat, exportStatement } from '@/lib/finance-export';
+import type { DealerBalance } from '@/lib/api/finance';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Month offsets are relative to the current month; both bounds are inclusive
+const RANGE_PRESETS = [
+  { key: 'this-month', label: 'This month', startMonths: 0, endMonths: 0 },
+  { key: 'last-month', label: 'Last month', startMonths: -1, endMonths: -1 },
+  { key: 'last-3-months', label: 'Last 3 months', startMonths: -2, endMonths: 0 },
+  { key: 'this-year', label: 'This year', startMonths: null, endMonths: 0 },
+];
+
+const FORMAT_OPTIONS: { value: StatementFormat; label: string; icon: React.ElementType }[] = [
+  { value: 'pdf', label: 'PDF', icon: FileText },
+  { value: 'csv', label: 'CSV', icon: Sheet },
+];
+
+function getPresetRange(startMonths: number | null, endMonths: number) {
+  const now = new Date();
+  const start = startMonths === null
+    ? new Date(now.getFullYear(), 0, 1)
+    : new Date(now.getFullYear(), now.getMonth() + startMonths, 1);
+  const end = endMonths === 0
+    ? now
+    : new Date(now.getFullYear(), now.getMonth() + endMonths + 1, 0);
+  return { from: toDateString(start), to: toDateString(end) };
+}
+
+interface StatementExportSheetProps {
+  visible: boolean;
+  statement: Statement | null;
+  account: Pick<DealerBalance, 'dealer_name' | 'dealer_code'> | null;
+  onClose: () => void;
+}
+
+export default function StatementExportSheet({ visible, statement, account, onClose }: StatementExportSheetProps) {
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [format, setFormat] = useState<StatementFormat>('pdf');
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Default to the current month every time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      const { from, to } = getPresetRange(0, 0);
+      setDateFrom(from);
+      setDateTo(to);
+      setError(null);
+    }
+  }, [visible]);
+
+  const applyPreset = (startMonths: number | null, endMonths: number) => {
+    const { from, to } = getPresetRange(startMonths, endMonths);
+    setDateFrom(from);
+    setDateTo(to);
+  };
+
+  const handleExport = async () => {
+    const from = dateFrom.trim();
+    const to = dateTo.trim();
+    if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+      setError('Dates must be in YYYY-MM-DD format');
+      return;
+    }
+    if (from > to) {
+      setError('The start date must be before the end date');
+      return;
+    }
+    if (!statement || !account) {
+      setError('Statement is still loading');
+      return;
+    }
+
+    try {
+      setExporting(true);
+      setError(null);
+      await exportStatement(getStatementPeriod(statement, from, to), account, format);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export statement');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <Animated.View entering={FadeInUp.duration(300)} style={styles.sheet}>
+          <View style={styles.header}>
+            <View style={styles.headerTitleContainer}>
+              <Download size={20} color="#4f46e5" strokeWidth={2.5} />
+              <Text style={styles.headerTitle}>Export Statement</Text>
+            </View>
+            <Pressable style={styles.closeButton} onPress={onClose}>
+              <X size={20} color="#64748b" strokeWidth={2.5} />
+            </Pressable>
+          </View>
+
+          <ScrollView style={styles.body} showsVerticalScrollIndicator={false}>
+            <Text style={styles.sectionTitle}>Period</Text>
+            <View style={styles.chipRow}>
+              {RANGE_PRESETS.map(preset => (
+                <Pressable
+                  key={preset.key}
+                  style={styles.chip}
+                  onPress={() => applyPreset(preset.startMonths, preset.endMonths)}>
+                  <Text style={styles.chipText}>{preset.label}</Text>
+                </Pressable>
+              ))}
+            </View>
+            <View style={styles.inputRow}>
+              <TextInput
+                style={styles.input}
+                placeholder="From (YYYY-MM-DD)"
+                placeholderTextColor="#94a3b8"
+                value={dateFrom}
+                onChangeText={setDateFrom}
+                autoCapitalize="none"
+              />
+              <TextInput
+                style={styles.input}
+                placeholder="To (YYYY-MM-DD)"
+                placeholderTextColor="#94a3b8"
+                value={dateTo}
+                onChangeText={setDateTo}
+                autoCapitalize="none"
+              />
+            </View>
+
+            <Text style={styles.sectionTitle}>Format</Text>
+            <View style={styles.chipRow}>
+              {FORMAT_OPTIONS.map(option => {
+                const selected = format === option.value;
+                return (
+                  <Pressable
+                    key={option.value}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => setFormat(option.value)}>
+                    <option.icon size={14} color={selected ? '#4f46e5' : '#64748b'} strokeWidth={2.5} />
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                      {option.label}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            {error && <Text style={styles.errorText}>{error}</Text>}
+          </ScrollView>
+
+          <View style={styles.actions}>
+            <Pressable
+              style={[styles.exportButton, exporting && styles.exportButtonDisabled]}
+              onPress={handleExport}
+              disabled={exporting}>
+              {exporting ? (
+                <ActivityIndicator color="#ffffff" />
+              ) : (
+                <Text style={styles.exportButtonText}>
+                  {Platform.OS === 'web' ? 'Download' : 'Share'} {format.toUpperCase()}
+                </Text>
+              )}
+            </Pressable>
+          </View>
+        </Animated.View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(15, 23, 42, 0.5)',
+  },
+  sheet: {
+    maxHeight: '85%',
+    backgroundColor: '#ffffff',
+    borderTopLeftRadius: 32,
+    borderTopRightRadius: 32,
+    paddingTop: 24,
+    paddingBottom: Platform.OS === 'ios' ? 40 : 24,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    marginBottom: 8,
+  },
+  headerTitleContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#0f172a',
+    letterSpacing: 0.3,
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#f1f5f9',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  body: {
+    paddingHorizontal: 24,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+    marginTop: 16,
+    marginBottom: 8,
+    letterSpacing: 0.2,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  chipSelected: {
+    borderColor: '#4f46e5',
+    backgroundColor: '#eef2ff',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#64748b',
+  },
+  chipTextSelected: {
+    color: '#4f46e5',
+    fontWeight: '600',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  input: {
+    flex: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#0f172a',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    backgroundColor: '#f8fafc',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#ef4444',
+    marginTop: 16,
+  },
+  actions: {
+    paddingHorizontal: 24,
+    paddingTop: 16,
+  },
+  exportButton: {
+    height: 52,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#4f46e5',
+  },
+  exportButtonDisabled: {
+    opacity: 0.7,
+  },
+  exportButtonText: {
+    fontSize: 16,
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,32 @@
+import { useAuth } from '@/providers/AuthProvider';
+import { useQuery } from '@/hooks/useQuery';
+import { fetchDealerDetails } from '@/lib/api/orders';
+import { fetchPriceChartProducts, type Product } from '@/lib/api/catalog';
+import type { DealerDetails } from '@/types/orders';
+
+// The dealer's price chart and its products, shared by the order modal and the catalog screens.
+// Pass enabled = false to hold off fetching, e.g. while a modal is closed.
+export function useCatalog(enabled = true) {
+  const { profile } = useAuth();
+
+  const dealerQuery = useQuery<DealerDetails>({
+    key: enabled && profile?.user_id ? { userId: profile.user_id, resource: 'dealer-details' } : null,
+    fetcher: () => fetchDealerDetails(profile!.user_id),
+    errorMessage: 'Failed to load data',
+  });
+  const priceChartId = dealerQuery.data?.price_chart?.id;
+
+  const productsQuery = useQuery<Product[]>({
+    key: enabled && profile?.user_id && priceChartId
+      ? { userId: profile.user_id, resource: 'price-chart-products', params: priceChartId }
+      : null,
+    fetcher: () => fetchPriceChartProducts(priceChartId!),
+    errorMessage: 'Failed to load data',
+  });
+
+  const loadError = dealerQuery.error
+    || (dealerQuery.data && !priceChartId ? 'No price chart assigned to dealer' : null)
+    || productsQuery.error;
+
+  return { dealerQuery, productsQuery, priceChartId, loadError };
+}
@@ -0,0 +1,40 @@
+import { useCallback, useMemo, useState } from 'react';
+import { useAuth } from '@/providers/AuthProvider';
+import { useQuery } from '@/hooks/useQuery';
+import { fetchFavouriteProductIds, addFavouriteProduct, removeFavouriteProduct } from '@/lib/api/favourites';
+
+// The dealer's starred products; toggling updates the list straight away and reverts on failure
+export function useFavourites(dealerId: string | null | undefined) {
+  const { profile } = useAuth();
+  const [error, setError] = useState<string | null>(null);
+
+  const favouritesQuery = useQuery<string[]>({
+    key: profile?.user_id && dealerId ? { userId: profile.user_id, resource: 'favourite-products' } : null,
+    fetcher: () => fetchFavouriteProductIds(dealerId!),
+    errorMessage: 'Failed to load favourites',
+  });
+  const { data, setData } = favouritesQuery;
+  const favouriteIds = useMemo(() => new Set(data ?? []), [data]);
+
+  const toggleFavourite = useCallback(async (productId: string) => {
+    if (!dealerId) return;
+
+    const previous = data ?? [];
+    const isFavourite = previous.includes(productId);
+    setData(isFavourite ? previous.filter(id => id !== productId) : [...previous, productId]);
+
+    try {
+      setError(null);
+      if (isFavourite) {
+        await removeFavouriteProduct(dealerId, productId);
+      } else {
+        await addFavouriteProduct(dealerId, productId);
+      }
+    } catch (err) {
+      setData(previous);
+      setError(err instanceof Error ? err.message : 'Failed to update favourites');
+    }
+  }, [dealerId, data, setData]);
+
+  return { favouriteIds, toggleFavourite, loading: favouritesQuery.loading, error: error || favouritesQuery.error };
+}
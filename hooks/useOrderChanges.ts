@@ -0,0 +1,38 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { subscribeToDealerOrders } from '@/lib/api/orders';
+import type { OrderChange } from '@/types/orders';
+
+// How long the status banner stays up before hiding itself
+const BANNER_DURATION = 6000;
+
+// Calls onChange for every Realtime insert or update of the dealer's orders
+export function useOrderChanges(dealerId: string | null | undefined, onChange: (change: OrderChange) => void) {
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (!dealerId) return;
+    return subscribeToDealerOrders(dealerId, change => onChangeRef.current(change));
+  }, [dealerId]);
+}
+
+// The most recent order to leave processing, for the status banner
+export function useOrderStatusBanner(dealerId: string | null | undefined) {
+  const [transition, setTransition] = useState<OrderChange | null>(null);
+
+  useOrderChanges(dealerId, change => {
+    if (change.previousStatus === 'processing' && change.order.status !== 'processing') {
+      setTransition(change);
+    }
+  });
+
+  useEffect(() => {
+    if (!transition) return;
+    const timeout = setTimeout(() => setTransition(null), BANNER_DURATION);
+    return () => clearTimeout(timeout);
+  }, [transition]);
+
+  const dismiss = useCallback(() => setTransition(null), []);
+
+  return { transition, dismiss };
+}
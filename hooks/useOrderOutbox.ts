@@ -0,0 +1,97 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AppState } from 'react-native';
+import {
+  type PendingOrder,
+  getPendingOrders,
+  updatePendingOrders,
+  removePendingOrder,
+  subscribeToOutbox,
+} from '@/lib/order-outbox';
+import { syncPendingOrders } from '@/lib/api/orders';
+
+/**
+ * Keeps retrying queued orders while the app is signed in: straight away, when
+ * each order's backoff expires and whenever the app comes back to the foreground.
+ */
+export function useOrderOutboxSync(userId: string | null | undefined) {
+  useEffect(() => {
+    if (!userId) return;
+
+    let active = true;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const schedule = (pending: PendingOrder[]) => {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+
+      const waiting = pending.filter(entry => !entry.failed);
+      if (!active || waiting.length === 0) return;
+
+      const nextAttemptAt = Math.min(...waiting.map(entry => entry.next_attempt_at));
+      timer = setTimeout(run, Math.max(nextAttemptAt - Date.now(), 0));
+    };
+
+    const run = () => {
+      syncPendingOrders(userId)
+        .catch(error => console.error('Error syncing pending orders:', error))
+        .finally(async () => {
+          if (active) {
+            schedule(await getPendingOrders(userId));
+          }
+        });
+    };
+
+    const unsubscribe = subscribeToOutbox(userId, schedule);
+    const appStateSubscription = AppState.addEventListener('change', state => {
+      if (state === 'active') run();
+    });
+    run();
+
+    return () => {
+      active = false;
+      if (timer) clearTimeout(timer);
+      unsubscribe();
+      appStateSubscription.remove();
+    };
+  }, [userId]);
+}
+
+export function usePendingOrders(userId: string | null | undefined) {
+  const [pending, setPending] = useState<PendingOrder[]>([]);
+
+  useEffect(() => {
+    if (!userId) {
+      setPending([]);
+      return;
+    }
+
+    let active = true;
+    getPendingOrders(userId).then(entries => {
+      if (active) setPending(entries);
+    });
+    const unsubscribe = subscribeToOutbox(userId, setPending);
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [userId]);
+
+  const discard = useCallback(async (clientRequestId: string) => {
+    if (!userId) return;
+    await removePendingOrder(userId, clientRequestId);
+  }, [userId]);
+
+  const retry = useCallback(async (clientRequestId: string) => {
+    if (!userId) return;
+    await updatePendingOrders(userId, entries => entries.map(entry =>
+      entry.client_request_id === clientRequestId
+        ? { ...entry, failed: false, next_attempt_at: Date.now(), last_error: null }
+        : entry
+    ));
+  }, [userId]);
+
+  return { pending, discard, retry };
+}
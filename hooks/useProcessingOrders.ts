@@ -0,0 +1,35 @@
+import { useEffect, useMemo } from 'react';
+import { useAuth } from '@/providers/AuthProvider';
+import { useQuery } from '@/hooks/useQuery';
+import { fetchDealerOrders, rememberOrderStatuses } from '@/lib/api/orders';
+import { fetchDealerByUserId } from '@/lib/api/dealers';
+import type { Order } from '@/types/orders';
+
+/**
+ * The dealer's orders that are still processing. Part of the 'orders' resource
+ * so placing or canceling an order refreshes it, and the statuses are
+ * remembered so Realtime can tell when one of them leaves processing.
+ */
+export function useProcessingOrders() {
+  const { profile } = useAuth();
+
+  const query = useQuery<Order[]>({
+    key: profile?.user_id ? { userId: profile.user_id, resource: 'orders', params: { statuses: ['processing'] } } : null,
+    fetcher: async () => {
+      const dealerData = await fetchDealerByUserId(profile!.user_id);
+      if (!dealerData) {
+        throw new Error('Dealer not found');
+      }
+      return fetchDealerOrders(dealerData.id, { statuses: ['processing'] });
+    },
+    errorMessage: 'Failed to fetch orders',
+  });
+  const orders = useMemo(() => query.data ?? [], [query.data]);
+
+  // Cached lists skip the fetcher, so remember statuses whenever the list changes
+  useEffect(() => {
+    rememberOrderStatuses(orders);
+  }, [orders]);
+
+  return { ...query, orders };
+}
@@ -0,0 +1,9 @@
+import { useMemo } from 'react';
+import type { Product } from '@/lib/api/catalog';
+import { buildProductSearchIndex, searchProducts } from '@/lib/product-search';
+
+// Ranked matches for `query`; the index is only rebuilt when the product list changes
+export function useProductSearch(products: Product[], query: string): Product[] {
+  const index = useMemo(() => buildProductSearchIndex(products), [products]);
+  return useMemo(() => searchProducts(index, query), [index, query]);
+}
@@ -0,0 +1,57 @@
+import { useEffect } from 'react';
+import { Platform } from 'react-native';
+import { useRouter } from 'expo-router';
+import { getPushService, setDeviceToken } from '@/lib/push-service';
+import { registerPushToken, markNotificationsRead } from '@/lib/api/notifications';
+import { invalidateQueries, type QueryResource } from '@/lib/query-cache';
+import type { IncomingPush, NotificationCategory } from '@/types/notifications';
+
+// Cached data a push makes out of date, besides the inbox itself
+const AFFECTED_RESOURCES: Record<NotificationCategory, QueryResource[]> = {
+  order_status: ['orders'],
+  payment: ['finance', 'credit-status', 'payment-reports'],
+  price_chart: ['price-chart-products'],
+};
+
+/**
+ * Registers this device for pushes while a dealer is signed in, refreshes the
+ * affected data when one arrives and opens the related screen when one is tapped.
+ */
+export function usePushNotifications(userId: string | null | undefined) {
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const service = getPushService();
+    service.register()
+      .then(token => {
+        if (token) {
+          return registerPushToken(token, Platform.OS).then(() => setDeviceToken(token));
+        }
+      })
+      .catch(error => console.error('Error registering for push notifications:', error));
+
+    const handleReceived = (push: IncomingPush) => {
+      const category = push.data.category;
+      invalidateQueries('notifications', ...(category ? AFFECTED_RESOURCES[category] : []));
+    };
+
+    const handleOpened = (push: IncomingPush) => {
+      if (push.data.notification_id) {
+        markNotificationsRead(userId, [push.data.notification_id])
+          .then(() => invalidateQueries('notifications'))
+          .catch(error => console.error('Error marking notification read:', error));
+      }
+      router.push((push.data.order_id ? `/orders/${push.data.order_id}` : '/notifications') as any);
+    };
+
+    const removeReceivedListener = service.addReceivedListener(handleReceived);
+    const removeOpenedListener = service.addOpenedListener(handleOpened);
+
+    return () => {
+      removeReceivedListener();
+      removeOpenedListener();
+    };
+  }, [userId, router]);
+}
@@ -0,0 +1,158 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  type QueryKey,
+  DEFAULT_STALE_TIME,
+  getQueryData,
+  getCacheGeneration,
+  setQueryData,
+  subscribeToQuery,
+  serializeQueryKey,
+  isStale,
+} from '@/lib/query-cache';
+
+interface UseQueryOptions<T> {
+  // Pass null while the key is not known yet (e.g. before the profile has loaded)
+  key: QueryKey | null;
+  fetcher: () => Promise<T>;
+  staleTime?: number;
+  errorMessage?: string;
+}
+
+interface UseQueryResult<T> {
+  data: T | null;
+  loading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  setData: (updater: T | ((previous: T | null) => T)) => void;
+}
+
+// Shared between every screen so two mounted screens never fetch the same key twice at once
+const inFlight = new Map<string, Promise<unknown>>();
+
+/**
+ * Stale-while-revalidate access to the query cache: cached data is returned
+ * straight away and refetched in the background once it is older than
+ * `staleTime` or has been invalidated by a mutation.
+ */
+export function useQuery<T>({
+  key,
+  fetcher,
+  staleTime = DEFAULT_STALE_TIME,
+  errorMessage = 'Failed to load data',
+}: UseQueryOptions<T>): UseQueryResult<T> {
+  const [data, setDataState] = useState<T | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const storageKey = key ? serializeQueryKey(key) : null;
+  const keyRef = useRef(key);
+  const storageKeyRef = useRef(storageKey);
+  const fetcherRef = useRef(fetcher);
+  const dataRef = useRef<T | null>(null);
+  keyRef.current = key;
+  storageKeyRef.current = storageKey;
+  fetcherRef.current = fetcher;
+
+  const runFetch = useCallback(async () => {
+    const currentKey = keyRef.current;
+    const currentStorageKey = storageKeyRef.current;
+    if (!currentKey || !currentStorageKey) return;
+
+    // Join a request another screen already started; its data arrives through the
+    // cache, but the outcome still has to settle this hook's loading and error state
+    const pending = inFlight.get(currentStorageKey);
+    if (pending) {
+      try {
+        await pending;
+        if (storageKeyRef.current === currentStorageKey) {
+          setError(null);
+        }
+      } catch (err) {
+        if (storageKeyRef.current === currentStorageKey) {
+          setError(err instanceof Error ? err.message : errorMessage);
+        }
+      } finally {
+        if (storageKeyRef.current === currentStorageKey) {
+          setLoading(false);
+        }
+      }
+      return;
+    }
+
+    const startedIn = getCacheGeneration();
+    const request = fetcherRef.current();
+    inFlight.set(currentStorageKey, request);
+    try {
+      const result = await request;
+      // The cache was purged (e.g. on sign-out) while this request was running
+      if (startedIn !== getCacheGeneration()) return;
+      // Subscribers, including this hook, pick the result up from the cache
+      await setQueryData(currentKey, result);
+      if (storageKeyRef.current === currentStorageKey) {
+        setError(null);
+      }
+    } catch (err) {
+      if (storageKeyRef.current === currentStorageKey) {
+        setError(err instanceof Error ? err.message : errorMessage);
+      }
+    } finally {
+      inFlight.delete(currentStorageKey);
+      if (storageKeyRef.current === currentStorageKey) {
+        setLoading(false);
+      }
+    }
+  }, [errorMessage]);
+
+  const applyData = useCallback((next: T | null) => {
+    dataRef.current = next;
+    setDataState(next);
+  }, []);
+
+  useEffect(() => {
+    const currentKey = keyRef.current;
+    if (!currentKey || !storageKey) return;
+
+    let active = true;
+    applyData(null);
+    setLoading(true);
+    setError(null);
+
+    // On mount the entry is checked against staleTime. Later notifications are either
+    // fresh writes (a fetch or a local setData), which must not trigger another fetch
+    // even with a staleTime of 0, or invalidations, which zero updatedAt.
+    const readCache = async (onMount: boolean) => {
+      const entry = await getQueryData<T>(currentKey);
+      if (!active) return;
+
+      if (entry) {
+        applyData(entry.data);
+        setLoading(false);
+      }
+      if (onMount ? isStale(entry, staleTime) : !entry || entry.updatedAt === 0) {
+        runFetch();
+      }
+    };
+
+    const unsubscribe = subscribeToQuery(currentKey, () => readCache(false));
+    readCache(true);
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [storageKey, staleTime, runFetch, applyData]);
+
+  // Local edits such as optimistic updates go through the cache so other screens see them too
+  const setData = useCallback((updater: T | ((previous: T | null) => T)) => {
+    const currentKey = keyRef.current;
+    if (!currentKey) return;
+
+    const next = typeof updater === 'function'
+      ? (updater as (previous: T | null) => T)(dataRef.current)
+      : updater;
+    applyData(next);
+    setQueryData(currentKey, next);
+  }, [applyData]);
+
+  return { data, loading, error, refetch: runFetch, setData };
+}
@@ -18,14 +18,6 @@ export async function fetchDealerDetails(dealerId: string) {
   return response.json();
 }
 
-export async function fetchPriceChartProducts(priceChartId: string) {
-  const response = await fetch(`${API_URL}/price-charts/${priceChartId}/items`);
-  if (!response.ok) {
-    throw new Error('Failed to fetch price chart products');
-  }
-  return response.json();
-}
-
 export async function createOrder(orderData: any) {
   const response = await fetch(`${API_URL}/orders`, {
     method: 'POST',
@@ -0,0 +1,196 @@
+import { z } from 'zod';
+import { supabase } from '@/lib/supabase';
+
+// Responses are validated so a renamed or missing column fails loudly
+// instead of silently producing an empty catalog
+
+const priceChartSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  price_chart_code: z.string(),
+});
+
+const priceChartItemSchema = z.object({
+  id: z.string(),
+  // numeric columns can come back as strings
+  price_per_unit: z.coerce.number(),
+  currency: z.string(),
+  effective_date: z.string(),
+  expiry_date: z.string().nullable(),
+  product: z.object({
+    id: z.string(),
+    name: z.string(),
+    category: z.string().nullable(),
+    description: z.string().nullable(),
+    unit: z.string(),
+  }),
+});
+
+export type PriceChart = z.infer<typeof priceChartSchema>;
+export type PriceChartItem = z.infer<typeof priceChartItemSchema>;
+
+// A price row that has been published but is not in force yet
+export interface UpcomingPrice {
+  price_per_unit: number;
+  effective_date: string;
+}
+
+// A product as it appears on a dealer's price chart, priced as of now
+export interface Product {
+  id: string;
+  name: string;
+  category: string;
+  description: string | null;
+  unit: string;
+  price_per_unit: number;
+  currency: string;
+  effective_date: string;
+  expiry_date: string | null;
+  // The next scheduled price change, if it differs from the current price
+  upcoming_price: UpcomingPrice | null;
+}
+
+const PRICE_CHART_SELECT = 'id, name, price_chart_code';
+
+const PRICE_CHART_ITEM_SELECT = `
+  id,
+  price_per_unit,
+  currency,
+  effective_date,
+  expiry_date,
+  product:products (
+    id,
+    name,
+    category,
+    description,
+    unit
+  )
+`;
+
+function parseResponse<T>(schema: z.ZodType<T>, data: unknown, label: string): T {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    console.error(`Unexpected ${label} response:`, result.error.issues);
+    const issue = result.error.issues[0];
+    throw new Error(`Unexpected ${label} response at "${issue.path.join('.') || 'root'}": ${issue.message}`);
+  }
+  return result.data;
+}
+
+async function fetchPriceChart(column: 'id' | 'price_chart_code', value: string): Promise<PriceChart> {
+  const { data, error } = await supabase
+    .from('price_charts')
+    .select(PRICE_CHART_SELECT)
+    .eq(column, value)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Price chart fetch error:', error);
+    throw new Error(`Failed to fetch price chart: ${error.message}`);
+  }
+
+  if (!data) {
+    throw new Error('Price chart not found');
+  }
+
+  return parseResponse(priceChartSchema, data, 'price chart');
+}
+
+export async function fetchPriceChartById(priceChartId: string): Promise<PriceChart> {
+  if (!priceChartId) throw new Error('Price chart ID is required');
+
+  console.log('Fetching price chart by ID:', priceChartId);
+  return fetchPriceChart('id', priceChartId);
+}
+
+export async function fetchPriceChartByCode(priceChartCode: string): Promise<PriceChart> {
+  if (!priceChartCode) throw new Error('Price chart code is required');
+
+  console.log('Fetching price chart by code:', priceChartCode);
+  return fetchPriceChart('price_chart_code', priceChartCode);
+}
+
+// Every row that has not expired yet, including ones that only take effect in the future
+export async function fetchPriceChartItems(priceChartId: string, asOf: Date = new Date()): Promise<PriceChartItem[]> {
+  if (!priceChartId) throw new Error('Price chart ID is required');
+
+  console.log('Fetching price chart items for ID:', priceChartId);
+
+  const { data, error } = await supabase
+    .from('price_chart_items')
+    .select(PRICE_CHART_ITEM_SELECT)
+    .eq('price_chart_id', priceChartId)
+    .or(`expiry_date.is.null,expiry_date.gt.${asOf.toISOString()}`)
+    .order('effective_date', { ascending: true });
+
+  if (error) {
+    console.error('Price chart items fetch error:', error);
+    throw new Error(`Failed to fetch price chart items: ${error.message}`);
+  }
+
+  return parseResponse(z.array(priceChartItemSchema), data ?? [], 'price chart items');
+}
+
+function isInForce(item: PriceChartItem, asOf: Date) {
+  const time = asOf.getTime();
+  return new Date(item.effective_date).getTime() <= time
+    && (item.expiry_date === null || new Date(item.expiry_date).getTime() > time);
+}
+
+/**
+ * Picks the row in force at `asOf` for each product: the most recently
+ * effective one that has not expired. The earliest future row with a
+ * different price is attached as the upcoming price. Products with no row in
+ * force yet are left out, since they cannot be ordered.
+ */
+export function resolvePriceChartProducts(items: PriceChartItem[], asOf: Date = new Date()): Product[] {
+  const byProduct = new Map<string, PriceChartItem[]>();
+  items.forEach(item => {
+    const rows = byProduct.get(item.product.id) || [];
+    rows.push(item);
+    byProduct.set(item.product.id, rows);
+  });
+
+  const products: Product[] = [];
+  byProduct.forEach(rows => {
+    const sorted = [...rows].sort(
+      (a, b) => new Date(a.effective_date).getTime() - new Date(b.effective_date).getTime()
+    );
+    const current = sorted.filter(row => isInForce(row, asOf)).pop();
+    if (!current) return;
+
+    const next = sorted.find(row =>
+      new Date(row.effective_date).getTime() > asOf.getTime() && row.price_per_unit !== current.price_per_unit
+    );
+    products.push(toProduct(current, next));
+  });
+
+  return products.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function toProduct(item: PriceChartItem, upcoming?: PriceChartItem): Product {
+  return {
+    id: item.product.id,
+    name: item.product.name,
+    category: item.product.category || '',
+    description: item.product.description,
+    unit: item.product.unit,
+    price_per_unit: item.price_per_unit,
+    currency: item.currency,
+    effective_date: item.effective_date,
+    expiry_date: item.expiry_date,
+    upcoming_price: upcoming
+      ? { price_per_unit: upcoming.price_per_unit, effective_date: upcoming.effective_date }
+      : null,
+  };
+}
+
+export async function fetchPriceChartProducts(priceChartId: string): Promise<Product[]> {
+  const asOf = new Date();
+  const products = resolvePriceChartProducts(await fetchPriceChartItems(priceChartId, asOf), asOf);
+
+  if (products.length === 0) {
+    console.log('No products in force for price chart:', priceChartId);
+  }
+  return products;
+}
@@ -0,0 +1,84 @@
+import { supabase } from '@/lib/supabase';
+import type { CreditLimitPolicy } from '@/types/orders';
+
+export interface CreditStatus {
+  // Outstanding balance from dealer_balances; positive means the dealer owes money
+  currentBalance: number;
+  // null when no credit limit has been configured for the dealer
+  creditLimit: number | null;
+  availableCredit: number | null;
+  policy: CreditLimitPolicy;
+}
+
+export interface CreditCheck {
+  exceeded: boolean;
+  // How far the order goes over the available credit
+  shortfall: number;
+  blocked: boolean;
+}
+
+function formatRupees(amount: number) {
+  return `₹${amount.toFixed(2)}`;
+}
+
+export async function fetchDealerCreditStatus(dealerId: string): Promise<CreditStatus> {
+  if (!dealerId) throw new Error('Dealer ID is required');
+
+  console.log('Fetching credit status for dealer:', dealerId);
+
+  const [dealerResult, balanceResult] = await Promise.all([
+    supabase
+      .from('dealers')
+      .select('credit_limit, credit_limit_policy')
+      .eq('id', dealerId)
+      .single(),
+    supabase
+      .from('dealer_balances')
+      .select('current_balance')
+      .eq('dealer_id', dealerId)
+      .maybeSingle()
+  ]);
+
+  if (dealerResult.error) {
+    console.error('Error fetching credit limit:', dealerResult.error);
+    throw new Error(`Failed to fetch credit limit: ${dealerResult.error.message}`);
+  }
+
+  if (balanceResult.error) {
+    console.error('Error fetching balance:', balanceResult.error);
+    throw new Error(`Failed to fetch balance: ${balanceResult.error.message}`);
+  }
+
+  // A dealer with no ledger yet has nothing outstanding
+  const currentBalance = Number(balanceResult.data?.current_balance) || 0;
+  const creditLimit = dealerResult.data?.credit_limit != null ? Number(dealerResult.data.credit_limit) : null;
+
+  return {
+    currentBalance,
+    creditLimit,
+    availableCredit: creditLimit === null ? null : creditLimit - currentBalance,
+    policy: dealerResult.data?.credit_limit_policy || 'warn',
+  };
+}
+
+export function checkCreditLimit(status: CreditStatus, orderTotal: number): CreditCheck {
+  if (status.availableCredit === null) {
+    return { exceeded: false, shortfall: 0, blocked: false };
+  }
+
+  const shortfall = Math.max(orderTotal - status.availableCredit, 0);
+  return {
+    exceeded: shortfall > 0,
+    shortfall,
+    blocked: shortfall > 0 && status.policy === 'block',
+  };
+}
+
+export function describeCreditCheck(status: CreditStatus, check: CreditCheck): string | null {
+  if (!check.exceeded || status.availableCredit === null) return null;
+
+  const available = formatRupees(Math.max(status.availableCredit, 0));
+  return check.blocked
+    ? `This order exceeds your available credit of ${available} by ${formatRupees(check.shortfall)}. Please clear your outstanding balance or reduce the order.`
+    : `This order exceeds your available credit of ${available} by ${formatRupees(check.shortfall)}.`;
+}
@@ -1,12 +1,16 @@
+import { z } from 'zod';
 import { supabase } from '@/lib/supabase';
 
-export interface DealerData {
-  id: string;
-  name: string;
-  dealer_code: string;
-  salesman_id: string | null;
-  price_chart_code: string | null;
-}
+// Validated so a renamed price chart column fails here rather than as "no price chart assigned"
+const dealerSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  dealer_code: z.string(),
+  salesman_id: z.string().nullable(),
+  price_chart_code: z.string().nullable(),
+});
+
+export type DealerData = z.infer<typeof dealerSchema>;
 
 export async function fetchDealerByUserId(userId: string): Promise<DealerData> {
   if (!userId) throw new Error('User ID is required');
@@ -38,5 +42,11 @@ export async function fetchDealerByUserId(userId: string): Promise<DealerData> {
   }
 
   console.log('Raw dealer data:', JSON.stringify(data, null, 2));
-  return data;
-} 
\ No newline at end of file
+
+  const result = dealerSchema.safeParse(data);
+  if (!result.success) {
+    console.error('Unexpected dealer response:', result.error.issues);
+    throw new Error(`Unexpected dealer response: ${result.error.issues[0].message}`);
+  }
+  return result.data;
+}
@@ -0,0 +1,49 @@
+import { supabase } from '@/lib/supabase';
+
+export async function fetchFavouriteProductIds(dealerId: string): Promise<string[]> {
+  if (!dealerId) throw new Error('Dealer ID is required');
+
+  const { data, error } = await supabase
+    .from('favourite_products')
+    .select('product_id')
+    .eq('dealer_id', dealerId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching favourite products:', error);
+    throw new Error(`Failed to fetch favourites: ${error.message}`);
+  }
+
+  return (data || []).map(row => row.product_id);
+}
+
+export async function addFavouriteProduct(dealerId: string, productId: string): Promise<void> {
+  if (!dealerId) throw new Error('Dealer ID is required');
+  if (!productId) throw new Error('Product ID is required');
+
+  // Starring twice (e.g. from two devices) is not an error
+  const { error } = await supabase
+    .from('favourite_products')
+    .upsert({ dealer_id: dealerId, product_id: productId }, { onConflict: 'dealer_id,product_id', ignoreDuplicates: true });
+
+  if (error) {
+    console.error('Error adding favourite product:', error);
+    throw new Error(`Failed to add favourite: ${error.message}`);
+  }
+}
+
+export async function removeFavouriteProduct(dealerId: string, productId: string): Promise<void> {
+  if (!dealerId) throw new Error('Dealer ID is required');
+  if (!productId) throw new Error('Product ID is required');
+
+  const { error } = await supabase
+    .from('favourite_products')
+    .delete()
+    .eq('dealer_id', dealerId)
+    .eq('product_id', productId);
+
+  if (error) {
+    console.error('Error removing favourite product:', error);
+    throw new Error(`Failed to remove favourite: ${error.message}`);
+  }
+}
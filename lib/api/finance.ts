@@ -1,19 +1,12 @@
 import { supabase } from '@/lib/supabase';
 import { fetchDealerByUserId } from './dealers';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { toDayBoundary } from './orders';
 
-// Cache keys
-const CACHE_KEYS = {
-  FINANCE: 'finance_cache',
-  LAST_FETCH: 'finance_last_fetch',
-};
-
-// Cache duration (5 minutes)
-const CACHE_DURATION = 5 * 60 * 1000;
+export type TransactionType = 'opening_balance' | 'payment' | 'order';
 
 export interface Transaction {
   id: string;
-  transaction_type: 'opening_balance' | 'payment' | 'order';
+  transaction_type: TransactionType;
   amount: number;
   description: string;
   transaction_date: string;
@@ -34,50 +27,18 @@ export interface DealerFinanceData {
   balance: DealerBalance;
 }
 
-// Helper function to check if cache is valid
-async function isCacheValid(): Promise<boolean> {
-  try {
-    const lastFetch = await AsyncStorage.getItem(CACHE_KEYS.LAST_FETCH);
-    if (!lastFetch) return false;
-    
-    const now = Date.now();
-    return now - parseInt(lastFetch) < CACHE_DURATION;
-  } catch (error) {
-    console.error('Error checking cache validity:', error);
-    return false;
-  }
-}
-
-// Helper function to get cached data
-async function getCachedData(): Promise<DealerFinanceData | null> {
-  try {
-    const cachedData = await AsyncStorage.getItem(CACHE_KEYS.FINANCE);
-    if (cachedData) {
-      return JSON.parse(cachedData);
-    }
-    return null;
-  } catch (error) {
-    console.error('Error getting cached data:', error);
-    return null;
-  }
-}
-
-// Helper function to save data to cache
-async function saveToCache(data: DealerFinanceData): Promise<void> {
-  try {
-    await Promise.all([
-      AsyncStorage.setItem(CACHE_KEYS.FINANCE, JSON.stringify(data)),
-      AsyncStorage.setItem(CACHE_KEYS.LAST_FETCH, Date.now().toString())
-    ]);
-  } catch (error) {
-    console.error('Error saving to cache:', error);
-  }
+export interface FinanceFilters {
+  types?: TransactionType[];
+  dateFrom?: string | null; // YYYY-MM-DD, inclusive
+  dateTo?: string | null; // YYYY-MM-DD, inclusive
+  minAmount?: number | null;
+  maxAmount?: number | null;
 }
 
-export async function fetchDealerFinance(userId: string, forceRefresh = false): Promise<DealerFinanceData> {
+export async function fetchDealerFinance(userId: string, filters: FinanceFilters = {}): Promise<DealerFinanceData> {
   if (!userId) throw new Error('User ID is required');
 
-  console.log('Fetching finance data for user:', userId);
+  console.log('Fetching finance data for user:', userId, filters);
 
   try {
     // Step 1: Get dealer data
@@ -88,21 +49,39 @@ export async function fetchDealerFinance(userId: string, forceRefresh = false):
       throw new Error('Dealer not found');
     }
 
-    // Step 2: Fetch transactions and balance in parallel
+    // Step 2: Narrow the ledger on the server so large ledgers are not downloaded in full
+    let transactionsQuery = supabase
+      .from('dealer_finance')
+      .select(`
+        id,
+        transaction_type,
+        amount,
+        description,
+        reference_id,
+        transaction_date,
+        created_at
+      `)
+      .eq('dealer_id', dealerData.id);
+
+    if (filters.types && filters.types.length > 0) {
+      transactionsQuery = transactionsQuery.in('transaction_type', filters.types);
+    }
+    if (filters.dateFrom) {
+      transactionsQuery = transactionsQuery.gte('transaction_date', toDayBoundary(filters.dateFrom, 'start'));
+    }
+    if (filters.dateTo) {
+      transactionsQuery = transactionsQuery.lte('transaction_date', toDayBoundary(filters.dateTo, 'end'));
+    }
+    if (filters.minAmount != null) {
+      transactionsQuery = transactionsQuery.gte('amount', filters.minAmount);
+    }
+    if (filters.maxAmount != null) {
+      transactionsQuery = transactionsQuery.lte('amount', filters.maxAmount);
+    }
+
+    // Step 3: Fetch transactions and balance in parallel
     const [transactionsResult, balanceResult] = await Promise.all([
-      supabase
-        .from('dealer_finance')
-        .select(`
-          id,
-          transaction_type,
-          amount,
-          description,
-          reference_id,
-          transaction_date,
-          created_at
-        `)
-        .eq('dealer_id', dealerData.id)
-        .order('transaction_date', { ascending: false }),
+      transactionsQuery.order('transaction_date', { ascending: false }),
       supabase
         .from('dealer_balances')
         .select('*')
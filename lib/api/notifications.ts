@@ -0,0 +1,137 @@
+import { supabase } from '@/lib/supabase';
+import type {
+  AppNotification,
+  NotificationCategory,
+  NotificationPreferences,
+} from '@/types/notifications';
+
+// Inbox size; older notifications are still kept server-side
+const INBOX_LIMIT = 50;
+
+export const NOTIFICATION_CATEGORIES: NotificationCategory[] = ['order_status', 'payment', 'price_chart'];
+
+// Everything is on until the dealer turns it off
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  order_status: true,
+  payment: true,
+  price_chart: true,
+};
+
+// Saved preferences may predate a category, so fill any gaps with the defaults
+function toPreferences(value: unknown): NotificationPreferences {
+  const saved = value && typeof value === 'object' ? (value as Partial<NotificationPreferences>) : {};
+  return NOTIFICATION_CATEGORIES.reduce((preferences, category) => ({
+    ...preferences,
+    [category]: typeof saved[category] === 'boolean' ? saved[category] : DEFAULT_NOTIFICATION_PREFERENCES[category],
+  }), { ...DEFAULT_NOTIFICATION_PREFERENCES });
+}
+
+// Tokens are stored per device, so registering here leaves the dealer's other devices alone
+export async function registerPushToken(token: string, platform: string): Promise<void> {
+  if (!token) throw new Error('Push token is required');
+
+  console.log('Registering push token for this device');
+
+  const { error } = await supabase.rpc('register_push_token', { p_token: token, p_platform: platform });
+
+  if (error) {
+    console.error('Error registering push token:', error);
+    throw new Error(`Failed to register for notifications: ${error.message}`);
+  }
+}
+
+// Called on sign-out and when the session expires, so a shared device stops receiving
+// the previous dealer's pushes. Works without a session.
+export async function clearPushToken(token: string): Promise<void> {
+  if (!token) throw new Error('Push token is required');
+
+  const { error } = await supabase.rpc('unregister_push_token', { p_token: token });
+
+  if (error) {
+    console.error('Error clearing push token:', error);
+    throw new Error(`Failed to unregister from notifications: ${error.message}`);
+  }
+}
+
+export async function fetchNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  if (!userId) throw new Error('User ID is required');
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('notification_preferences')
+    .eq('user_id', userId)
+    .single();
+
+  if (error) {
+    console.error('Error fetching notification preferences:', error);
+    throw new Error(`Failed to fetch notification preferences: ${error.message}`);
+  }
+
+  return toPreferences(data?.notification_preferences);
+}
+
+export async function updateNotificationPreferences(
+  userId: string,
+  preferences: NotificationPreferences
+): Promise<NotificationPreferences> {
+  if (!userId) throw new Error('User ID is required');
+
+  console.log('Updating notification preferences:', preferences);
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .update({ notification_preferences: preferences, updated_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .select('notification_preferences')
+    .single();
+
+  if (error) {
+    console.error('Error updating notification preferences:', error);
+    throw new Error(`Failed to update notification preferences: ${error.message}`);
+  }
+
+  return toPreferences(data?.notification_preferences);
+}
+
+export async function fetchNotifications(userId: string): Promise<AppNotification[]> {
+  if (!userId) throw new Error('User ID is required');
+
+  console.log('Fetching notifications for user:', userId);
+
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(INBOX_LIMIT);
+
+  if (error) {
+    console.error('Error fetching notifications:', error);
+    throw new Error(`Failed to fetch notifications: ${error.message}`);
+  }
+
+  return (data || []) as AppNotification[];
+}
+
+// Marks the given notifications as read, or every unread one when no ids are passed
+export async function markNotificationsRead(userId: string, notificationIds?: string[]): Promise<void> {
+  if (!userId) throw new Error('User ID is required');
+
+  let query = supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('read_at', null);
+
+  if (notificationIds) {
+    if (notificationIds.length === 0) return;
+    query = query.in('id', notificationIds);
+  }
+
+  const { error } = await query;
+
+  if (error) {
+    console.error('Error marking notifications read:', error);
+    throw new Error(`Failed to update notifications: ${error.message}`);
+  }
+}
@@ -1,78 +1,187 @@
 import { supabase } from '@/lib/supabase';
-import type { CreateOrderData, Order } from '@/types/orders';
+import type { CreateOrderData, Order, OrderBatchResult } from '@/types/orders';
+import { type CreditStatus, checkCreditLimit, describeCreditCheck } from './credit';
 
-export async function createOrder(orderData: CreateOrderData): Promise<Order> {
+// Order columns together with the dealer, salesman, product and price chart joins
+export const ORDER_DETAIL_SELECT = `
+  *,
+  dealer:dealers(
+    id,
+    name,
+    dealer_code
+  ),
+  salesman:profiles!orders_salesman_id_fkey(
+    user_id,
+    display_name
+  ),
+  product:products(
+    id,
+    name,
+    category,
+    unit
+  ),
+  price_chart:price_charts(
+    id,
+    name,
+    price_chart_code
+  )
+`;
+
+function hasRequiredFields(orderData: CreateOrderData): boolean {
+  return Boolean(
+    orderData.dealer_id && orderData.product_id && orderData.quantity &&
+    orderData.price_chart_id && orderData.price_per_unit && orderData.product_name && orderData.unit
+  );
+}
+
+interface PlacedOrderLine {
+  line_index: number;
+  order_id: string | null;
+  error: string | null;
+}
+
+// place_dealer_orders refuses an over-limit cart as a whole, with the figures it checked in the details
+function toCreditLimitError(details: string | null | undefined): Error {
+  let figures: Record<string, unknown> = {};
   try {
-    // Validate required fields
-    if (!orderData.dealer_id || !orderData.product_id || !orderData.quantity || 
-        !orderData.price_chart_id || !orderData.price_per_unit || !orderData.product_name || !orderData.unit) {
-      throw new Error('Missing required fields. Please ensure all required data is provided.');
-    }
+    figures = JSON.parse(details || '{}');
+  } catch (error) {
+    console.error('Unexpected credit limit details:', error);
+  }
 
-    console.log('Creating order with data:', orderData);
+  const status: CreditStatus = {
+    currentBalance: Number(figures.current_balance) || 0,
+    creditLimit: figures.credit_limit != null ? Number(figures.credit_limit) : null,
+    availableCredit: figures.available_credit != null ? Number(figures.available_credit) : null,
+    policy: 'block',
+  };
+  const check = checkCreditLimit(status, Number(figures.order_total) || 0);
+  return new Error(describeCreditCheck(status, check) || 'This order exceeds your credit limit');
+}
+
+async function fetchOrdersWithDetails(dealerId: string, orderIds: string[]): Promise<Order[]> {
+  if (orderIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('orders')
+    .select(ORDER_DETAIL_SELECT)
+    .eq('dealer_id', dealerId)
+    .in('id', orderIds);
+
+  if (error) {
+    console.error('Error fetching placed orders:', error);
+    throw new Error(`Failed to create order: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Places the lines through place_dealer_orders, which locks the dealer, checks the
+ * credit limit and inserts every line in one transaction. Orders cannot be inserted
+ * any other way, so the limit holds for every client. Lines retried with a
+ * client_request_id that was already placed come back as the existing order.
+ */
+async function placeOrders(dealerId: string, lines: CreateOrderData[]): Promise<OrderBatchResult> {
+  const { data, error } = await supabase.rpc('place_dealer_orders', {
+    p_dealer_id: dealerId,
+    p_lines: lines.map(line => ({
+      product_id: line.product_id,
+      product_name: line.product_name,
+      unit: line.unit,
+      quantity: Number(line.quantity),
+      price_chart_id: line.price_chart_id,
+      price_per_unit: Number(line.price_per_unit),
+      notes: line.notes || null,
+      client_request_id: line.client_request_id || null,
+    })),
+  });
+
+  if (error?.message === 'credit_limit_exceeded') {
+    throw toCreditLimitError(error.details);
+  }
 
-    // First, get the dealer's salesman_id
-    const { data: dealerData, error: dealerError } = await supabase
-      .from('dealers')
-      .select('salesman_id')
-      .eq('id', orderData.dealer_id)
-      .single();
+  if (error) {
+    console.error('Error creating orders:', error);
+    throw new Error(`Failed to create order: ${error.message}`);
+  }
+
+  const placed = (data || []) as PlacedOrderLine[];
+  const orders = await fetchOrdersWithDetails(
+    dealerId,
+    placed.map(line => line.order_id).filter((id): id is string => Boolean(id))
+  );
+  const ordersById = new Map(orders.map(order => [order.id, order]));
 
-    if (dealerError) {
-      console.error('Error fetching dealer:', dealerError);
-      throw new Error('Failed to fetch dealer details');
+  const result: OrderBatchResult = { created: [], failed: [] };
+  lines.forEach((line, index) => {
+    const outcome = placed.find(placedLine => placedLine.line_index === index);
+    const order = outcome?.order_id ? ordersById.get(outcome.order_id) : undefined;
+    if (order) {
+      result.created.push(order);
+    } else {
+      result.failed.push({ index, line, error: outcome?.error || 'Order was not created' });
     }
+  });
+
+  return result;
+}
 
-    // Create the order with the provided data
-    // Note: We don't specify an ID - the database will generate it using generate_order_id()
-    const { data: createdOrder, error: orderError } = await supabase
-      .from('orders')
-      .insert({
-        dealer_id: orderData.dealer_id,
-        salesman_id: dealerData?.salesman_id || null,
-        product_id: orderData.product_id,
-        product_name: orderData.product_name,
-        unit: orderData.unit,
-        quantity: Number(orderData.quantity),
-        price_chart_id: orderData.price_chart_id,
-        price_per_unit: Number(orderData.price_per_unit),
-        total_price: Number(orderData.quantity) * Number(orderData.price_per_unit),
-        status: 'processing',
-        notes: orderData.notes || null
-      })
-      .select(`
-        *,
-        dealer:dealers(
-          id,
-          name,
-          dealer_code
-        ),
-        salesman:profiles!orders_salesman_id_fkey(
-          user_id,
-          display_name
-        ),
-        product:products(
-          id,
-          name,
-          category,
-          unit
-        )
-      `)
-      .single();
-
-    if (orderError) {
-      console.error('Error creating order:', orderError);
-      throw new Error(`Failed to create order: ${orderError.message}`);
+export async function createOrder(orderData: CreateOrderData): Promise<Order> {
+  try {
+    // Validate required fields
+    if (!hasRequiredFields(orderData)) {
+      throw new Error('Missing required fields. Please ensure all required data is provided.');
     }
 
-    if (!createdOrder) {
-      throw new Error('Order was not created');
+    console.log('Creating order with data:', orderData);
+
+    const { created, failed } = await placeOrders(orderData.dealer_id, [orderData]);
+    if (failed.length > 0) {
+      throw new Error(`Failed to create order: ${failed[0].error}`);
     }
 
-    console.log('Order created successfully:', createdOrder);
-    return createdOrder;
+    console.log('Order created successfully:', created[0]);
+    return created[0];
   } catch (error) {
     console.error('Error in createOrder:', error);
     throw error;
   }
-} 
\ No newline at end of file
+}
+
+export async function createOrders(lines: CreateOrderData[]): Promise<OrderBatchResult> {
+  if (lines.length === 0) {
+    throw new Error('At least one order line is required');
+  }
+
+  const dealerIds = new Set(lines.map(line => line.dealer_id));
+  if (dealerIds.size !== 1) {
+    throw new Error('All order lines must belong to the same dealer');
+  }
+
+  console.log(`Creating ${lines.length} orders in batch`);
+
+  // Incomplete lines are reported as failed without being sent
+  const validLines = lines.filter(hasRequiredFields);
+  const placed = validLines.length > 0
+    ? await placeOrders(lines[0].dealer_id, validLines)
+    : { created: [], failed: [] };
+
+  const result: OrderBatchResult = { created: placed.created, failed: [] };
+  lines.forEach((line, index) => {
+    if (!hasRequiredFields(line)) {
+      result.failed.push({
+        index,
+        line,
+        error: 'Missing required fields. Please ensure all required data is provided.',
+      });
+    }
+  });
+  placed.failed.forEach(failure => {
+    result.failed.push({ ...failure, index: lines.indexOf(failure.line) });
+  });
+  result.failed.sort((a, b) => a.index - b.index);
+
+  console.log(`Batch order result: ${result.created.length} created, ${result.failed.length} failed`);
+  return result;
+}
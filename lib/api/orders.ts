@@ -1,30 +1,26 @@
 import { supabase } from '@/lib/supabase';
-import type { CreateOrderData, Order } from '@/types/orders';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import type {
+  CreateOrderData,
+  DealerDetails,
+  Order,
+  OrderBatchResult,
+  OrderChange,
+  OrderCursor,
+  OrderFilters,
+  OrderPage,
+  OrderWithDetails,
+  OrderedProduct,
+} from '@/types/orders';
 import { fetchDealerByUserId } from './dealers';
-import { fetchPriceChartByCode, fetchPriceChartItems } from './price-charts';
-import { createOrder as createOrderApi } from './order-create';
-
-export interface DealerDetails {
-  id: string;
-  name: string;
-  dealer_code: string;
-  salesman_id: string | null;
-  price_chart: {
-    id: string;
-    name: string;
-    price_chart_code: string;
-  } | null;
-}
-
-export interface Product {
-  id: string;
-  name: string;
-  category: string;
-  unit: string;
-  price_per_unit: number;
-  currency: string;
-  effective_date: string;
-  expiry_date: string | null;
+import { fetchPriceChartByCode } from './catalog';
+import { createOrder as createOrderApi, createOrders as createOrdersApi, ORDER_DETAIL_SELECT } from './order-create';
+import { invalidateQueries } from '@/lib/query-cache';
+import { getPendingOrders, updatePendingOrders, isNetworkError, getRetryDelay } from '@/lib/order-outbox';
+
+// Cached data that changes whenever an order is placed or canceled
+async function invalidateOrderQueries() {
+  await invalidateQueries('orders', 'ordered-products', 'finance', 'credit-status');
 }
 
 export async function fetchDealerDetails(userId: string): Promise<DealerDetails> {
@@ -65,37 +61,7 @@ export async function fetchDealerDetails(userId: string): Promise<DealerDetails>
   return result;
 }
 
-export async function fetchPriceChartProducts(priceChartCode: string): Promise<Product[]> {
-  if (!priceChartCode) throw new Error('Price chart code is required');
-
-  console.log('Fetching products for price chart:', priceChartCode);
-
-  // Step 1: Get price chart data
-  const priceChartData = await fetchPriceChartByCode(priceChartCode);
-  console.log('Price chart data:', JSON.stringify(priceChartData, null, 2));
-
-  // Step 2: Get price chart items
-  const priceChartItems = await fetchPriceChartItems(priceChartData.id);
-  console.log('Price chart items:', JSON.stringify(priceChartItems, null, 2));
-
-  // Transform the response to match the Product interface
-  const result = priceChartItems.map(item => ({
-    id: item.product.id,
-    name: item.product.name,
-    category: item.product.category,
-    unit: item.product.unit,
-    price_per_unit: item.price_per_unit,
-    currency: item.currency,
-    effective_date: item.effective_date,
-    expiry_date: item.expiry_date
-  }));
-
-  console.log('Transformed products:', JSON.stringify(result, null, 2));
-  return result;
-}
-
-export async function createOrder(orderData: CreateOrderData): Promise<Order> {
-  // Validate order data
+function validateOrderData(orderData: CreateOrderData) {
   if (!orderData.dealer_id) throw new Error('Dealer ID is required');
   if (!orderData.product_id) throw new Error('Product ID is required');
   if (!orderData.product_name) throw new Error('Product name is required');
@@ -103,12 +69,18 @@ export async function createOrder(orderData: CreateOrderData): Promise<Order> {
   if (orderData.quantity <= 0) throw new Error('Quantity must be greater than 0');
   if (orderData.price_per_unit <= 0) throw new Error('Price per unit must be greater than 0');
   if (orderData.total_price <= 0) throw new Error('Total price must be greater than 0');
+}
+
+export async function createOrder(orderData: CreateOrderData): Promise<Order> {
+  // Validate order data
+  validateOrderData(orderData);
 
   console.log('Creating order with data:', JSON.stringify(orderData, null, 2));
 
   try {
     const createdOrder = await createOrderApi(orderData);
     console.log('Order created successfully:', JSON.stringify(createdOrder, null, 2));
+    await invalidateOrderQueries();
     return createdOrder;
   } catch (error) {
     console.error('Order creation error:', error);
@@ -116,15 +88,144 @@ export async function createOrder(orderData: CreateOrderData): Promise<Order> {
   }
 }
 
-export async function fetchDealerOrders(dealerId: string): Promise<Order[]> {
-  if (!dealerId) throw new Error('Dealer ID is required');
+export async function createOrderBatch(lines: CreateOrderData[]): Promise<OrderBatchResult> {
+  if (lines.length === 0) throw new Error('Please add at least one product to the order');
 
-  console.log('Fetching orders for dealer:', dealerId);
+  // Validate every line up front so an obviously broken cart is not half-submitted
+  lines.forEach((line, index) => {
+    try {
+      validateOrderData(line);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid order line';
+      throw new Error(`Line ${index + 1} (${line.product_name || 'unknown product'}): ${message}`);
+    }
+  });
 
-  const { data, error } = await supabase
+  console.log('Creating order batch with data:', JSON.stringify(lines, null, 2));
+
+  try {
+    const result = await createOrdersApi(lines);
+    console.log('Order batch created:', JSON.stringify(result, null, 2));
+    if (result.created.length > 0) {
+      await invalidateOrderQueries();
+    }
+    return result;
+  } catch (error) {
+    console.error('Order batch creation error:', error);
+    throw error;
+  }
+}
+
+// One sync per user at a time, so a timer and a foreground event never submit the same order twice
+const syncsInProgress = new Map<string, Promise<number>>();
+
+export async function syncPendingOrders(userId: string): Promise<number> {
+  if (!userId) throw new Error('User ID is required');
+
+  const inProgress = syncsInProgress.get(userId);
+  if (inProgress) return inProgress;
+
+  const sync = (async () => {
+    const due = (await getPendingOrders(userId)).filter(
+      entry => !entry.failed && entry.next_attempt_at <= Date.now()
+    );
+    if (due.length === 0) return 0;
+
+    console.log(`Syncing ${due.length} pending orders`);
+    let synced = 0;
+
+    for (const [index, entry] of due.entries()) {
+      try {
+        await createOrder(entry.order);
+        synced += 1;
+        await updatePendingOrders(userId, pending =>
+          pending.filter(item => item.client_request_id !== entry.client_request_id)
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to create order';
+
+        if (!isNetworkError(error)) {
+          // Rejected by the backend; retrying the same request would fail the same way
+          await updatePendingOrders(userId, pending => pending.map(item =>
+            item.client_request_id === entry.client_request_id
+              ? { ...item, attempts: item.attempts + 1, failed: true, last_error: message }
+              : item
+          ));
+          continue;
+        }
+
+        // Still offline; back off this order and everything queued behind it
+        const attempts = entry.attempts + 1;
+        const nextAttemptAt = Date.now() + getRetryDelay(entry.attempts);
+        const waiting = new Set(due.slice(index).map(item => item.client_request_id));
+        await updatePendingOrders(userId, pending => pending.map(item => {
+          if (item.client_request_id === entry.client_request_id) {
+            return { ...item, attempts, next_attempt_at: nextAttemptAt, last_error: message };
+          }
+          return waiting.has(item.client_request_id) ? { ...item, next_attempt_at: nextAttemptAt } : item;
+        }));
+        break;
+      }
+    }
+
+    console.log(`Synced ${synced} of ${due.length} pending orders`);
+    return synced;
+  })();
+
+  syncsInProgress.set(userId, sync);
+  try {
+    return await sync;
+  } finally {
+    syncsInProgress.delete(userId);
+  }
+}
+
+// Converts a local YYYY-MM-DD date into the ISO timestamp at the start or end of that day
+export function toDayBoundary(date: string, boundary: 'start' | 'end'): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const value = boundary === 'start'
+    ? new Date(year, month - 1, day, 0, 0, 0, 0)
+    : new Date(year, month - 1, day, 23, 59, 59, 999);
+  if (isNaN(value.getTime())) throw new Error(`Invalid date: ${date}`);
+  return value.toISOString();
+}
+
+export const ORDERS_PAGE_SIZE = 20;
+
+function buildDealerOrdersQuery(dealerId: string, filters: OrderFilters) {
+  let query = supabase
     .from('orders')
     .select('*')
-    .eq('dealer_id', dealerId)
+    .eq('dealer_id', dealerId);
+
+  if (filters.statuses && filters.statuses.length > 0) {
+    query = query.in('status', filters.statuses);
+  }
+  if (filters.dateFrom) {
+    query = query.gte('created_at', toDayBoundary(filters.dateFrom, 'start'));
+  }
+  if (filters.dateTo) {
+    query = query.lte('created_at', toDayBoundary(filters.dateTo, 'end'));
+  }
+  if (filters.productId) {
+    query = query.eq('product_id', filters.productId);
+  }
+  if (filters.minAmount != null) {
+    query = query.gte('total_price', filters.minAmount);
+  }
+  if (filters.maxAmount != null) {
+    query = query.lte('total_price', filters.maxAmount);
+  }
+
+  return query;
+}
+
+export async function fetchDealerOrders(dealerId: string, filters: OrderFilters = {}): Promise<Order[]> {
+  if (!dealerId) throw new Error('Dealer ID is required');
+
+  console.log('Fetching orders for dealer:', dealerId, 'with filters:', JSON.stringify(filters));
+
+  const { data, error } = await buildDealerOrdersQuery(dealerId, filters)
     .order('created_at', { ascending: false });
 
   if (error) {
@@ -134,4 +235,259 @@ export async function fetchDealerOrders(dealerId: string): Promise<Order[]> {
 
   console.log('Fetched orders:', JSON.stringify(data, null, 2));
   return data;
-}
\ No newline at end of file
+}
+
+export async function fetchDealerOrdersPage(
+  dealerId: string,
+  options: {
+    filters?: OrderFilters;
+    search?: string;
+    cursor?: OrderCursor | null;
+    pageSize?: number;
+  } = {}
+): Promise<OrderPage> {
+  if (!dealerId) throw new Error('Dealer ID is required');
+
+  const { filters = {}, search = '', cursor = null, pageSize = ORDERS_PAGE_SIZE } = options;
+
+  console.log('Fetching orders page for dealer:', dealerId, 'after:', JSON.stringify(cursor));
+
+  let query = buildDealerOrdersQuery(dealerId, filters);
+
+  // Strip characters that have a meaning inside PostgREST filter expressions
+  const term = search.replace(/[%*,()"\\]/g, ' ').trim();
+  if (term) {
+    query = query.or(`product_name.ilike.*${term}*,id.ilike.*${term}*`);
+  }
+
+  // Rows strictly after the cursor in (created_at desc, id desc) order; id breaks
+  // ties between orders created in the same instant
+  if (cursor) {
+    query = query.or(
+      `created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt."${cursor.id}")`
+    );
+  }
+
+  // Ask for one extra row to learn whether another page exists
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(pageSize + 1);
+
+  if (error) {
+    console.error('Error fetching orders page:', error);
+    throw error;
+  }
+
+  const rows = data || [];
+  const orders = rows.slice(0, pageSize);
+  const last = orders[orders.length - 1];
+
+  console.log(`Fetched ${orders.length} orders${rows.length > pageSize ? ' (more available)' : ''}`);
+  return {
+    orders,
+    nextCursor: rows.length > pageSize && last ? { created_at: last.created_at, id: last.id } : null,
+  };
+}
+
+export async function fetchDealerOrderedProducts(dealerId: string): Promise<OrderedProduct[]> {
+  if (!dealerId) throw new Error('Dealer ID is required');
+
+  console.log('Fetching ordered products for dealer:', dealerId);
+
+  const { data, error } = await supabase
+    .from('orders')
+    .select('product_id, product_name')
+    .eq('dealer_id', dealerId);
+
+  if (error) {
+    console.error('Error fetching ordered products:', error);
+    throw error;
+  }
+
+  // Distinct products, alphabetically
+  const products = new Map<string, string>();
+  (data || []).forEach(row => {
+    if (!products.has(row.product_id)) {
+      products.set(row.product_id, row.product_name);
+    }
+  });
+
+  return Array.from(products, ([id, name]) => ({ id, name }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Long id lists overflow the request URL
+const ORDER_ID_BATCH_SIZE = 100;
+
+// Looks up the orders behind ledger entries; ids that do not match an order are skipped
+export async function fetchOrdersByIds(dealerId: string, orderIds: string[]): Promise<Order[]> {
+  if (!dealerId) throw new Error('Dealer ID is required');
+
+  const ids = Array.from(new Set(orderIds.filter(Boolean)));
+  if (ids.length === 0) return [];
+
+  console.log('Fetching orders by id:', ids.length);
+
+  const batches: string[][] = [];
+  for (let i = 0; i < ids.length; i += ORDER_ID_BATCH_SIZE) {
+    batches.push(ids.slice(i, i + ORDER_ID_BATCH_SIZE));
+  }
+
+  const results = await Promise.all(batches.map(batch =>
+    supabase
+      .from('orders')
+      .select('*')
+      .eq('dealer_id', dealerId)
+      .in('id', batch)
+  ));
+
+  const failed = results.find(result => result.error);
+  if (failed?.error) {
+    console.error('Error fetching orders by id:', failed.error);
+    throw failed.error;
+  }
+
+  const orders = results.flatMap(result => result.data || []) as Order[];
+  rememberOrderStatuses(orders);
+  return orders;
+}
+
+export async function fetchOrderById(orderId: string, dealerId: string): Promise<OrderWithDetails> {
+  if (!orderId) throw new Error('Order ID is required');
+  if (!dealerId) throw new Error('Dealer ID is required');
+
+  console.log('Fetching order:', orderId);
+
+  // Scope by dealer as well so a deep link cannot open another dealer's order
+  const { data, error } = await supabase
+    .from('orders')
+    .select(ORDER_DETAIL_SELECT)
+    .eq('id', orderId)
+    .eq('dealer_id', dealerId)
+    .single();
+
+  if (error) {
+    console.error('Error fetching order:', error);
+    if (error.code === 'PGRST116') {
+      throw new Error('Order not found');
+    }
+    throw error;
+  }
+
+  console.log('Fetched order:', JSON.stringify(data, null, 2));
+  return data as unknown as OrderWithDetails;
+}
+
+export async function cancelOrder(orderId: string, dealerId: string, reason: string): Promise<Order> {
+  if (!orderId) throw new Error('Order ID is required');
+  if (!dealerId) throw new Error('Dealer ID is required');
+  if (!reason.trim()) throw new Error('Please provide a reason for canceling');
+
+  console.log('Canceling order:', orderId);
+
+  // Only match rows that are still processing, so the update is a no-op if the
+  // back office has already completed or canceled the order in the meantime
+  const { data, error } = await supabase
+    .from('orders')
+    .update({
+      status: 'canceled',
+      cancellation_reason: reason.trim(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', orderId)
+    .eq('dealer_id', dealerId)
+    .eq('status', 'processing')
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error canceling order:', error);
+    throw new Error(`Failed to cancel order: ${error.message}`);
+  }
+
+  if (!data) {
+    // Nothing was updated; find out what happened to the order
+    const { data: current } = await supabase
+      .from('orders')
+      .select('status')
+      .eq('id', orderId)
+      .eq('dealer_id', dealerId)
+      .maybeSingle();
+
+    if (!current) {
+      throw new Error('Order not found');
+    }
+    throw new Error(`This order is already ${current.status} and can no longer be canceled`);
+  }
+
+  console.log('Order canceled:', JSON.stringify(data, null, 2));
+  await invalidateOrderQueries();
+  return data;
+}
+
+type OrderChangeListener = (change: OrderChange) => void;
+
+interface DealerOrdersChannel {
+  channel: RealtimeChannel;
+  listeners: Set<OrderChangeListener>;
+}
+
+// One Realtime channel per dealer, shared by every screen that is listening
+const dealerOrderChannels = new Map<string, DealerOrdersChannel>();
+
+// Last status seen per order. Realtime only includes the previous row values when
+// the table uses REPLICA IDENTITY FULL (see supabase/migrations), so this fills
+// the gap for status changes until that migration has been applied.
+const knownOrderStatuses = new Map<string, Order['status']>();
+
+export function rememberOrderStatuses(orders: Order[]) {
+  orders.forEach(order => knownOrderStatuses.set(order.id, order.status));
+}
+
+export function subscribeToDealerOrders(dealerId: string, listener: OrderChangeListener): () => void {
+  if (!dealerId) throw new Error('Dealer ID is required');
+
+  let entry = dealerOrderChannels.get(dealerId);
+  if (!entry) {
+    const listeners = new Set<OrderChangeListener>();
+    const channel = supabase
+      .channel(`orders:${dealerId}`)
+      .on<Order>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'orders', filter: `dealer_id=eq.${dealerId}` },
+        payload => {
+          if (payload.eventType === 'DELETE') return;
+
+          const order = payload.new;
+          const previousStatus = payload.eventType === 'UPDATE'
+            ? payload.old.status ?? knownOrderStatuses.get(order.id) ?? null
+            : null;
+          knownOrderStatuses.set(order.id, order.status);
+
+          console.log(`Realtime ${payload.eventType} for order ${order.id}: ${previousStatus ?? 'new'} -> ${order.status}`);
+          const change: OrderChange = { type: payload.eventType, order, previousStatus };
+          listeners.forEach(notify => notify(change));
+        }
+      )
+      .subscribe(status => {
+        if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          console.error(`Realtime subscription for dealer ${dealerId} failed:`, status);
+        }
+      });
+
+    entry = { channel, listeners };
+    dealerOrderChannels.set(dealerId, entry);
+  }
+
+  const current = entry;
+  current.listeners.add(listener);
+
+  return () => {
+    current.listeners.delete(listener);
+    if (current.listeners.size === 0) {
+      dealerOrderChannels.delete(dealerId);
+      supabase.removeChannel(current.channel);
+    }
+  };
+}
@@ -0,0 +1,132 @@
+import { supabase } from '@/lib/supabase';
+import { fetchDealerByUserId } from './dealers';
+import { invalidateQueries } from '@/lib/query-cache';
+import { toDateString } from '@/lib/dates';
+import type { PaymentMode, PaymentReport, ReceiptImage, ReportPaymentData } from '@/types/payments';
+
+const RECEIPTS_BUCKET = 'payment-receipts';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const PAYMENT_MODES: { value: PaymentMode; label: string }[] = [
+  { value: 'cash', label: 'Cash' },
+  { value: 'cheque', label: 'Cheque' },
+  { value: 'upi', label: 'UPI' },
+  { value: 'bank_transfer', label: 'Bank transfer' },
+];
+
+function validatePayment(data: ReportPaymentData) {
+  if (!data.amount || isNaN(data.amount) || data.amount <= 0) {
+    throw new Error('Please enter a valid amount');
+  }
+  if (!DATE_PATTERN.test(data.payment_date) || isNaN(new Date(data.payment_date).getTime())) {
+    throw new Error('Payment date must be in YYYY-MM-DD format');
+  }
+  if (data.payment_date > toDateString(new Date())) {
+    throw new Error('Payment date cannot be in the future');
+  }
+  if (!PAYMENT_MODES.some(mode => mode.value === data.mode)) {
+    throw new Error('Please select a payment mode');
+  }
+  if (data.mode !== 'cash' && !data.reference_number?.trim()) {
+    throw new Error('Please enter the reference number');
+  }
+}
+
+async function uploadReceipt(dealerId: string, receipt: ReceiptImage): Promise<string> {
+  const contentType = receipt.mimeType || 'image/jpeg';
+  const extension = contentType.split('/')[1] || 'jpg';
+  const path = `${dealerId}/${Date.now()}-${Math.random().toString(36).slice(2, 10)}.${extension}`;
+
+  const body = await fetch(receipt.uri).then(response => response.arrayBuffer());
+  const { error } = await supabase.storage
+    .from(RECEIPTS_BUCKET)
+    .upload(path, body, { contentType });
+
+  if (error) {
+    console.error('Error uploading receipt:', error);
+    throw new Error(`Failed to upload receipt: ${error.message}`);
+  }
+
+  return path;
+}
+
+// Records a payment the dealer has made; it reaches the ledger once staff approve it
+export async function reportPayment(
+  userId: string,
+  data: ReportPaymentData,
+  receipt?: ReceiptImage | null
+): Promise<PaymentReport> {
+  if (!userId) throw new Error('User ID is required');
+  validatePayment(data);
+
+  console.log('Reporting payment:', data);
+
+  const dealer = await fetchDealerByUserId(userId);
+  const receiptPath = receipt ? await uploadReceipt(dealer.id, receipt) : null;
+
+  const { data: report, error } = await supabase
+    .from('payment_reports')
+    .insert({
+      dealer_id: dealer.id,
+      reported_by: userId,
+      amount: Number(data.amount),
+      payment_date: data.payment_date,
+      mode: data.mode,
+      reference_number: data.reference_number?.trim() || null,
+      receipt_path: receiptPath,
+      status: 'pending'
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    console.error('Error reporting payment:', error);
+    // Don't leave an orphaned receipt behind
+    if (receiptPath) {
+      await supabase.storage.from(RECEIPTS_BUCKET).remove([receiptPath]);
+    }
+    throw new Error(`Failed to report payment: ${error.message}`);
+  }
+
+  await invalidateQueries('payment-reports');
+  return report as PaymentReport;
+}
+
+// Reports that have not been posted to the ledger yet, plus any that were rejected
+export async function fetchPaymentReports(userId: string): Promise<PaymentReport[]> {
+  if (!userId) throw new Error('User ID is required');
+
+  console.log('Fetching payment reports for user:', userId);
+
+  const dealer = await fetchDealerByUserId(userId);
+  const { data, error } = await supabase
+    .from('payment_reports')
+    .select('*')
+    .eq('dealer_id', dealer.id)
+    .in('status', ['pending', 'rejected'])
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching payment reports:', error);
+    throw new Error(`Failed to fetch payment reports: ${error.message}`);
+  }
+
+  return (data || []) as PaymentReport[];
+}
+
+// Receipts are stored privately, so hand out a short-lived link for viewing
+export async function getReceiptUrl(receiptPath: string): Promise<string> {
+  if (!receiptPath) throw new Error('Receipt path is required');
+
+  const { data, error } = await supabase.storage
+    .from(RECEIPTS_BUCKET)
+    .createSignedUrl(receiptPath, 60 * 60);
+
+  if (error || !data) {
+    console.error('Error creating receipt link:', error);
+    throw new Error(`Failed to load receipt: ${error?.message || 'Unknown error'}`);
+  }
+
+  return data.signedUrl;
+}
@@ -0,0 +1,25 @@
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// YYYY-MM-DD in local time, the format date filters and statement periods use
+export function toDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// YYYY-MM in local time
+export function toMonthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+// Local date of `days` days before today
+export function daysAgo(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return toDateString(date);
+}
+
+// Whole days from one timestamp to a later one, never negative
+export function daysBetween(from: string, to: string): number {
+  return Math.max(Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS), 0);
+}
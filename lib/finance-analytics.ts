@@ -0,0 +1,219 @@
+import type { Transaction } from '@/lib/api/finance';
+import { TOLERANCE, buildStatement, type StatementLine } from '@/lib/finance-statement';
+import { daysBetween, toMonthKey } from '@/lib/dates';
+import type { Order } from '@/types/orders';
+
+export interface MonthlyTotal {
+  month: string; // YYYY-MM
+  label: string;
+  debits: number;
+  payments: number;
+  // Balance at the end of the month
+  closingBalance: number;
+}
+
+export interface PaymentAllocation {
+  debit: StatementLine;
+  payment: StatementLine;
+  amount: number;
+  days: number;
+}
+
+export interface OpenDebit {
+  line: StatementLine;
+  remaining: number;
+}
+
+export interface PaymentAllocationResult {
+  allocations: PaymentAllocation[];
+  // Debits that payments have not covered yet, oldest first
+  openDebits: OpenDebit[];
+  // Payments made in advance of any debit
+  unappliedCredit: number;
+}
+
+export interface ProductTotal {
+  productId: string;
+  name: string;
+  unit: string;
+  quantity: number;
+  value: number;
+}
+
+/**
+ * Settles debits oldest first: each payment pays off the oldest outstanding
+ * order (or positive opening balance) before moving on to the next one.
+ */
+export function allocatePaymentsFifo(transactions: Transaction[]): PaymentAllocationResult {
+  const { lines } = buildStatement(transactions, null);
+  const allocations: PaymentAllocation[] = [];
+  const openDebits: OpenDebit[] = [];
+  let unappliedCredit = 0;
+
+  lines.forEach(line => {
+    const amount = Number(line.transaction.amount) || 0;
+    const isOpening = line.transaction.transaction_type === 'opening_balance';
+    const debit = line.debit + (isOpening && amount > 0 ? amount : 0);
+    let credit = line.credit + (isOpening && amount < 0 ? -amount : 0);
+
+    if (debit > 0) {
+      // Money paid in advance covers the new debit straight away
+      const covered = Math.min(unappliedCredit, debit);
+      unappliedCredit -= covered;
+      if (debit - covered > TOLERANCE) {
+        openDebits.push({ line, remaining: debit - covered });
+      }
+    }
+
+    while (credit > TOLERANCE && openDebits.length > 0) {
+      const oldest = openDebits[0];
+      const used = Math.min(credit, oldest.remaining);
+      allocations.push({
+        debit: oldest.line,
+        payment: line,
+        amount: used,
+        days: daysBetween(oldest.line.transaction.transaction_date, line.transaction.transaction_date),
+      });
+      oldest.remaining -= used;
+      credit -= used;
+      if (oldest.remaining <= TOLERANCE) {
+        openDebits.shift();
+      }
+    }
+    unappliedCredit += Math.max(credit, 0);
+  });
+
+  return { allocations, openDebits, unappliedCredit };
+}
+
+// Weighted by amount, so a large order paid late counts for more than a small one
+export function getAverageDaysToPay(allocations: PaymentAllocation[]): number | null {
+  const total = allocations.reduce((sum, allocation) => sum + allocation.amount, 0);
+  if (total <= TOLERANCE) return null;
+
+  const weighted = allocations.reduce((sum, allocation) => sum + allocation.days * allocation.amount, 0);
+  return weighted / total;
+}
+
+// Totals for each of the last `months` calendar months, oldest first
+export function getMonthlyTotals(transactions: Transaction[], months = 6): MonthlyTotal[] {
+  const { lines } = buildStatement(transactions, null);
+  const now = new Date();
+  const buckets: MonthlyTotal[] = [];
+
+  for (let offset = months - 1; offset >= 0; offset--) {
+    const date = new Date(now.getFullYear(), now.getMonth() - offset, 1);
+    buckets.push({
+      month: toMonthKey(date),
+      label: date.toLocaleDateString('en-US', { month: 'short' }),
+      debits: 0,
+      payments: 0,
+      closingBalance: 0,
+    });
+  }
+
+  let balance = 0;
+  let bucketIndex = 0;
+  lines.forEach(line => {
+    const month = toMonthKey(new Date(line.transaction.transaction_date));
+    // Months without activity carry the previous balance forward
+    while (bucketIndex < buckets.length && buckets[bucketIndex].month < month) {
+      buckets[bucketIndex].closingBalance = balance;
+      bucketIndex++;
+    }
+
+    balance = line.balance;
+    const bucket = buckets.find(candidate => candidate.month === month);
+    if (bucket) {
+      bucket.debits += line.debit;
+      bucket.payments += line.credit;
+    }
+  });
+  for (; bucketIndex < buckets.length; bucketIndex++) {
+    buckets[bucketIndex].closingBalance = balance;
+  }
+
+  return buckets;
+}
+
+// Products ranked by the value of posted order debits, skipping canceled orders
+export function getTopProducts(transactions: Transaction[], orders: Map<string, Order>, limit = 5): ProductTotal[] {
+  const totals = new Map<string, ProductTotal>();
+
+  transactions.forEach(transaction => {
+    if (transaction.transaction_type !== 'order') return;
+
+    const order = orders.get(transaction.reference_id);
+    if (!order || order.status === 'canceled') return;
+
+    const total = totals.get(order.product_id) || {
+      productId: order.product_id,
+      name: order.product_name,
+      unit: order.unit,
+      quantity: 0,
+      value: 0,
+    };
+    total.quantity += Number(order.quantity) || 0;
+    total.value += Number(transaction.amount) || 0;
+    totals.set(order.product_id, total);
+  });
+
+  return Array.from(totals.values())
+    .sort((a, b) => b.value - a.value)
+    .slice(0, limit);
+}
+
+export type AgeingBucketKey = '0-30' | '31-60' | '61-90' | '90+';
+
+export interface AgeingBucket {
+  key: AgeingBucketKey;
+  label: string;
+  amount: number;
+  count: number;
+}
+
+export interface OutstandingDebit extends OpenDebit {
+  days: number;
+}
+
+export interface AgeingReport {
+  buckets: AgeingBucket[];
+  // Outstanding after FIFO allocation, which matches the balance when nothing is paid in advance
+  totalOutstanding: number;
+  unappliedCredit: number;
+  // Oldest first
+  outstanding: OutstandingDebit[];
+}
+
+// The credit team's standard buckets; `maxDays` is inclusive
+const AGEING_BUCKETS: { key: AgeingBucketKey; label: string; maxDays: number }[] = [
+  { key: '0-30', label: '0–30 days', maxDays: 30 },
+  { key: '31-60', label: '31–60 days', maxDays: 60 },
+  { key: '61-90', label: '61–90 days', maxDays: 90 },
+  { key: '90+', label: '90+ days', maxDays: Infinity },
+];
+
+export function getAgeingReport(transactions: Transaction[], asOf: Date = new Date()): AgeingReport {
+  const { openDebits, unappliedCredit } = allocatePaymentsFifo(transactions);
+  const buckets: AgeingBucket[] = AGEING_BUCKETS.map(bucket => ({
+    key: bucket.key,
+    label: bucket.label,
+    amount: 0,
+    count: 0,
+  }));
+
+  const outstanding = openDebits.map(debit => {
+    const days = daysBetween(debit.line.transaction.transaction_date, asOf.toISOString());
+    const index = AGEING_BUCKETS.findIndex(bucket => days <= bucket.maxDays);
+    buckets[index].amount += debit.remaining;
+    buckets[index].count += 1;
+    return { ...debit, days };
+  });
+
+  return {
+    buckets,
+    totalOutstanding: outstanding.reduce((sum, debit) => sum + debit.remaining, 0),
+    unappliedCredit,
+    outstanding,
+  };
+}
@@ -0,0 +1,201 @@
+import { Platform } from 'react-native';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import * as FileSystem from 'expo-file-system';
+import type { StatementPeriod } from '@/lib/finance-statement';
+import { toDateString } from '@/lib/dates';
+import {
+  type StatementAccount,
+  COMPANY_NAME,
+  formatAmount,
+  formatCurrency,
+  formatDate,
+  formatType,
+} from '@/lib/statement-format';
+import { statementToPdf } from '@/lib/statement-pdf';
+
+export type StatementFormat = 'pdf' | 'csv';
+
+// Spreadsheets run cells starting with these as formulas; negative amounts are left alone
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const NUMBER = /^-?\d+(\.\d+)?$/;
+
+function escapeCsv(value: string) {
+  // Descriptions and notes are typed by users, so a leading quote keeps them as text
+  const safe = FORMULA_PREFIX.test(value) && !NUMBER.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function getFileName(period: StatementPeriod, account: StatementAccount, format: StatementFormat) {
+  const code = account.dealer_code.replace(/[^\w-]/g, '') || 'dealer';
+  return `statement-${code}-${period.from}-to-${period.to}.${format}`;
+}
+
+export function statementToCsv(period: StatementPeriod, account: StatementAccount): string {
+  const rows: string[][] = [
+    ['Dealer', account.dealer_name],
+    ['Dealer code', account.dealer_code],
+    ['Period', `${period.from} to ${period.to}`],
+    [],
+    ['Date', 'Type', 'Description', 'Reference', 'Debit', 'Credit', 'Balance'],
+    [period.from, 'Opening balance', '', '', '', '', formatAmount(period.openingBalance)],
+    ...period.lines.map(line => [
+      toDateString(new Date(line.transaction.transaction_date)),
+      formatType(line),
+      line.transaction.description,
+      line.transaction.reference_id || '',
+      line.debit ? formatAmount(line.debit) : '',
+      line.credit ? formatAmount(line.credit) : '',
+      formatAmount(line.balance),
+    ]),
+    [period.to, 'Closing balance', '', '', formatAmount(period.totalDebits), formatAmount(period.totalCredits), formatAmount(period.closingBalance)],
+  ];
+
+  return rows.map(row => row.map(escapeCsv).join(',')).join('\n');
+}
+
+export function statementToHtml(period: StatementPeriod, account: StatementAccount): string {
+  const rows = period.lines.map(line => `
+    <tr>
+      <td>${formatDate(line.transaction.transaction_date)}</td>
+      <td>${escapeHtml(formatType(line))}</td>
+      <td>${escapeHtml(line.transaction.description)}</td>
+      <td class="amount">${line.debit ? formatCurrency(line.debit) : ''}</td>
+      <td class="amount">${line.credit ? formatCurrency(line.credit) : ''}</td>
+      <td class="amount">${formatCurrency(line.balance)}</td>
+    </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <style>
+    body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #0f172a; padding: 24px; }
+    .brand { background: #4f46e5; color: #ffffff; padding: 20px 24px; border-radius: 12px; }
+    .brand h1 { margin: 0; font-size: 22px; }
+    .brand p { margin: 4px 0 0; color: #e0e7ff; font-size: 13px; }
+    .summary { display: flex; gap: 12px; margin: 20px 0; }
+    .summary div { flex: 1; border: 1px solid #e2e8f0; border-radius: 8px; padding: 12px; }
+    .summary span { display: block; font-size: 11px; color: #64748b; text-transform: uppercase; }
+    .summary strong { font-size: 16px; }
+    table { width: 100%; border-collapse: collapse; font-size: 12px; }
+    th { text-align: left; color: #64748b; border-bottom: 2px solid #e2e8f0; padding: 8px 6px; }
+    td { border-bottom: 1px solid #f1f5f9; padding: 8px 6px; }
+    .amount { text-align: right; white-space: nowrap; }
+    .total td { font-weight: bold; border-top: 2px solid #e2e8f0; }
+    footer { margin-top: 24px; font-size: 11px; color: #94a3b8; }
+  </style>
+</head>
+<body>
+  <div class="brand">
+    <h1>${COMPANY_NAME}</h1>
+    <p>Account statement · ${escapeHtml(account.dealer_name)} (${escapeHtml(account.dealer_code)})</p>
+    <p>${formatDate(period.from)} – ${formatDate(period.to)}</p>
+  </div>
+  <div class="summary">
+    <div><span>Opening balance</span><strong>${formatCurrency(period.openingBalance)}</strong></div>
+    <div><span>Debits</span><strong>${formatCurrency(period.totalDebits)}</strong></div>
+    <div><span>Credits</span><strong>${formatCurrency(period.totalCredits)}</strong></div>
+    <div><span>Closing balance</span><strong>${formatCurrency(period.closingBalance)}</strong></div>
+  </div>
+  <table>
+    <thead>
+      <tr>
+        <th>Date</th>
+        <th>Type</th>
+        <th>Description</th>
+        <th class="amount">Debit</th>
+        <th class="amount">Credit</th>
+        <th class="amount">Balance</th>
+      </tr>
+    </thead>
+    <tbody>
+      <tr>
+        <td>${formatDate(period.from)}</td>
+        <td colspan="4">Opening balance</td>
+        <td class="amount">${formatCurrency(period.openingBalance)}</td>
+      </tr>${rows}
+      <tr class="total">
+        <td>${formatDate(period.to)}</td>
+        <td colspan="2">Closing balance</td>
+        <td class="amount">${formatCurrency(period.totalDebits)}</td>
+        <td class="amount">${formatCurrency(period.totalCredits)}</td>
+        <td class="amount">${formatCurrency(period.closingBalance)}</td>
+      </tr>
+    </tbody>
+  </table>
+  <footer>Generated ${formatDate(new Date().toISOString())}</footer>
+</body>
+</html>`;
+}
+
+function downloadOnWeb(content: string | Blob, fileName: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+async function shareFile(uri: string, mimeType: string, UTI: string) {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  await Sharing.shareAsync(uri, { mimeType, UTI, dialogTitle: 'Share statement' });
+}
+
+/**
+ * Shares the statement through the OS share sheet on native and downloads it
+ * on web.
+ */
+export async function exportStatement(
+  period: StatementPeriod,
+  account: StatementAccount,
+  format: StatementFormat
+): Promise<void> {
+  const fileName = getFileName(period, account, format);
+  console.log('Exporting statement:', fileName);
+
+  try {
+    if (format === 'csv') {
+      const csv = statementToCsv(period, account);
+      if (Platform.OS === 'web') {
+        downloadOnWeb(csv, fileName, 'text/csv');
+        return;
+      }
+
+      const uri = `${FileSystem.cacheDirectory}${fileName}`;
+      await FileSystem.writeAsStringAsync(uri, csv, { encoding: FileSystem.EncodingType.UTF8 });
+      await shareFile(uri, 'text/csv', 'public.comma-separated-values-text');
+      return;
+    }
+
+    if (Platform.OS === 'web') {
+      downloadOnWeb(await statementToPdf(period, account), fileName, 'application/pdf');
+      return;
+    }
+
+    const html = statementToHtml(period, account);
+
+    // Give the PDF a readable name before handing it to the share sheet
+    const { uri: printedUri } = await Print.printToFileAsync({ html });
+    const uri = `${FileSystem.cacheDirectory}${fileName}`;
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+    await FileSystem.moveAsync({ from: printedUri, to: uri });
+    await shareFile(uri, 'application/pdf', 'com.adobe.pdf');
+  } catch (error) {
+    console.error('Error exporting statement:', error);
+    throw new Error(`Failed to export statement: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
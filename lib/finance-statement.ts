@@ -0,0 +1,128 @@
+import type { Transaction } from '@/lib/api/finance';
+import { toDateString } from '@/lib/dates';
+
+export interface StatementLine {
+  transaction: Transaction;
+  debit: number;
+  credit: number;
+  // Balance after this line has been applied
+  balance: number;
+  // True when this line took the balance across (or onto) zero
+  crossedZero: boolean;
+}
+
+export interface Statement {
+  lines: StatementLine[];
+  openingBalance: number;
+  totalDebits: number;
+  totalCredits: number;
+  closingBalance: number;
+  // Figure reported by dealer_balances, null when it is not available
+  reportedBalance: number | null;
+  // closingBalance - reportedBalance
+  difference: number;
+  reconciled: boolean;
+}
+
+// Amounts are in rupees, so anything under half a paisa is rounding noise
+export const TOLERANCE = 0.005;
+
+function roundAmount(amount: number) {
+  return Math.round(amount * 100) / 100;
+}
+
+function sign(amount: number) {
+  return Math.abs(amount) < TOLERANCE ? 0 : Math.sign(amount);
+}
+
+// Oldest first; rows on the same day keep the order they were recorded in
+function compareTransactions(a: Transaction, b: Transaction) {
+  const byDate = new Date(a.transaction_date).getTime() - new Date(b.transaction_date).getTime();
+  if (byDate !== 0) return byDate;
+  return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+}
+
+/**
+ * Replays the ledger oldest first. Opening balance rows seed the balance,
+ * orders are debits that raise it and payments are credits that lower it.
+ * The final figure is checked against the balance the server reports.
+ */
+export function buildStatement(transactions: Transaction[], reportedBalance: number | null): Statement {
+  let openingBalance = 0;
+  let totalDebits = 0;
+  let totalCredits = 0;
+  let balance = 0;
+
+  const lines = [...transactions].sort(compareTransactions).map((transaction, index) => {
+    const amount = Number(transaction.amount) || 0;
+    const debit = transaction.transaction_type === 'order' ? amount : 0;
+    const credit = transaction.transaction_type === 'payment' ? amount : 0;
+
+    if (transaction.transaction_type === 'opening_balance') {
+      openingBalance = roundAmount(openingBalance + amount);
+    }
+
+    const previous = balance;
+    balance = roundAmount(balance + (transaction.transaction_type === 'opening_balance' ? amount : debit - credit));
+    totalDebits = roundAmount(totalDebits + debit);
+    totalCredits = roundAmount(totalCredits + credit);
+
+    return {
+      transaction,
+      debit,
+      credit,
+      balance,
+      // Moving away from zero, e.g. the first order after a nil opening balance, does not count
+      crossedZero: index > 0 && (sign(balance) === 0 ? sign(previous) !== 0 : sign(previous) === -sign(balance)),
+    };
+  });
+
+  const difference = reportedBalance === null ? 0 : roundAmount(balance - reportedBalance);
+
+  return {
+    lines,
+    openingBalance,
+    totalDebits,
+    totalCredits,
+    closingBalance: balance,
+    reportedBalance,
+    difference,
+    reconciled: reportedBalance !== null && Math.abs(difference) < TOLERANCE,
+  };
+}
+
+export interface StatementPeriod {
+  // Inclusive YYYY-MM-DD bounds
+  from: string;
+  to: string;
+  lines: StatementLine[];
+  openingBalance: number;
+  totalDebits: number;
+  totalCredits: number;
+  closingBalance: number;
+}
+
+// Cuts a statement down to a date range, carrying in the balance from before it
+export function getStatementPeriod(statement: Statement, from: string, to: string): StatementPeriod {
+  let openingBalance = 0;
+  const lines: StatementLine[] = [];
+
+  statement.lines.forEach(line => {
+    const day = toDateString(new Date(line.transaction.transaction_date));
+    if (day < from) {
+      openingBalance = line.balance;
+    } else if (day <= to) {
+      lines.push(line);
+    }
+  });
+
+  return {
+    from,
+    to,
+    lines,
+    openingBalance,
+    totalDebits: roundAmount(lines.reduce((sum, line) => sum + line.debit, 0)),
+    totalCredits: roundAmount(lines.reduce((sum, line) => sum + line.credit, 0)),
+    closingBalance: lines.length > 0 ? lines[lines.length - 1].balance : openingBalance,
+  };
+}
@@ -0,0 +1,125 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { CreateOrderData } from '@/types/orders';
+
+// Orders placed without a connection wait here until they reach Supabase. The
+// outbox is kept per user and survives sign-out so queued orders are never lost.
+const OUTBOX_PREFIX = 'order_outbox:';
+
+// Retry after 5s, 10s, 20s, ... capped at 5 minutes
+const BASE_RETRY_DELAY = 5 * 1000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+export interface PendingOrder {
+  client_request_id: string;
+  order: CreateOrderData;
+  queued_at: string;
+  attempts: number;
+  next_attempt_at: number;
+  // Set when the backend rejected the order, which no amount of retrying will fix
+  failed: boolean;
+  last_error: string | null;
+}
+
+type Listener = (pending: PendingOrder[]) => void;
+
+const listeners = new Map<string, Set<Listener>>();
+
+function outboxKey(userId: string): string {
+  return `${OUTBOX_PREFIX}${userId}`;
+}
+
+// RFC 4122 version 4 id; only needs to be unique per order, not cryptographically strong
+export function generateClientRequestId(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = (Math.random() * 16) | 0;
+    const value = char === 'x' ? random : (random & 0x3) | 0x8;
+    return value.toString(16);
+  });
+}
+
+/**
+ * Supabase reports an unreachable server as a fetch `TypeError` rather than a
+ * Postgres error, e.g. "TypeError: Network request failed" on native and
+ * "TypeError: Failed to fetch" on web.
+ */
+export function isNetworkError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error ?? '');
+  return /TypeError: (Network request failed|Failed to fetch|Load failed)|FetchError|Network request timed out/i.test(message);
+}
+
+export function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY * 2 ** attempts, MAX_RETRY_DELAY);
+}
+
+export async function getPendingOrders(userId: string): Promise<PendingOrder[]> {
+  if (!userId) throw new Error('User ID is required');
+
+  try {
+    const stored = await AsyncStorage.getItem(outboxKey(userId));
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error reading order outbox:', error);
+    return [];
+  }
+}
+
+async function savePendingOrders(userId: string, pending: PendingOrder[]): Promise<void> {
+  await AsyncStorage.setItem(outboxKey(userId), JSON.stringify(pending));
+  listeners.get(userId)?.forEach(listener => listener(pending));
+}
+
+export async function updatePendingOrders(
+  userId: string,
+  update: (pending: PendingOrder[]) => PendingOrder[]
+): Promise<PendingOrder[]> {
+  const next = update(await getPendingOrders(userId));
+  await savePendingOrders(userId, next);
+  return next;
+}
+
+export async function enqueueOrders(userId: string, orders: CreateOrderData[]): Promise<PendingOrder[]> {
+  if (!userId) throw new Error('User ID is required');
+
+  const queuedAt = new Date().toISOString();
+  const queued: PendingOrder[] = orders.map(order => {
+    const clientRequestId = order.client_request_id || generateClientRequestId();
+    return {
+      client_request_id: clientRequestId,
+      order: { ...order, client_request_id: clientRequestId },
+      queued_at: queuedAt,
+      attempts: 0,
+      next_attempt_at: Date.now(),
+      failed: false,
+      last_error: null,
+    };
+  });
+
+  console.log(`Queued ${queued.length} orders for sync`);
+
+  // Re-queuing the same request id replaces the earlier entry instead of duplicating it
+  const ids = new Set(queued.map(entry => entry.client_request_id));
+  await updatePendingOrders(userId, pending => [
+    ...pending.filter(entry => !ids.has(entry.client_request_id)),
+    ...queued,
+  ]);
+  return queued;
+}
+
+export async function removePendingOrder(userId: string, clientRequestId: string): Promise<void> {
+  await updatePendingOrders(userId, pending =>
+    pending.filter(entry => entry.client_request_id !== clientRequestId)
+  );
+}
+
+export function subscribeToOutbox(userId: string, listener: Listener): () => void {
+  const userListeners = listeners.get(userId) ?? new Set<Listener>();
+  userListeners.add(listener);
+  listeners.set(userId, userListeners);
+
+  return () => {
+    userListeners.delete(listener);
+    if (userListeners.size === 0) {
+      listeners.delete(userId);
+    }
+  };
+}
@@ -0,0 +1,96 @@
+import type { Order, OrderFilters } from '@/types/orders';
+import { DAY_MS, toDateString } from '@/lib/dates';
+
+export interface ProductOrderStats {
+  productId: string;
+  productName: string;
+  unit: string;
+  orderCount: number;
+  // Median quantity per order, so one bulk order does not skew it
+  typicalQuantity: number;
+  lastOrderedAt: string;
+  daysSinceLastOrder: number;
+  // Median gap between ordering days, null until there are enough orders to tell
+  typicalIntervalDays: number | null;
+}
+
+// How far back order history is read; older habits are not a good guide
+const HISTORY_DAYS = 365;
+
+// A reorder pattern needs at least this many separate ordering days
+const MIN_ORDER_DAYS_FOR_INTERVAL = 3;
+
+// Suggest a reorder from 80% of the usual gap; past twice the gap the dealer has probably stopped
+const DUE_FROM = 0.8;
+const DUE_UNTIL = 2;
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function toDayNumber(date: string) {
+  const day = new Date(date);
+  return Math.round(new Date(day.getFullYear(), day.getMonth(), day.getDate()).getTime() / DAY_MS);
+}
+
+// The orders to base suggestions on
+export function getSuggestionHistoryFilters(asOf: Date = new Date()): OrderFilters {
+  return {
+    statuses: ['processing', 'completed'],
+    dateFrom: toDateString(new Date(asOf.getTime() - HISTORY_DAYS * DAY_MS)),
+  };
+}
+
+// Per-product ordering history, ignoring canceled orders
+export function getProductOrderStats(orders: Order[], asOf: Date = new Date()): ProductOrderStats[] {
+  const byProduct = new Map<string, Order[]>();
+  orders.forEach(order => {
+    if (order.status === 'canceled') return;
+    byProduct.set(order.product_id, [...(byProduct.get(order.product_id) || []), order]);
+  });
+
+  const today = toDayNumber(asOf.toISOString());
+  return Array.from(byProduct.values()).map(productOrders => {
+    const sorted = [...productOrders].sort((a, b) => a.created_at.localeCompare(b.created_at));
+    const latest = sorted[sorted.length - 1];
+
+    // Several cart lines placed on the same day count as one ordering day
+    const days = Array.from(new Set(sorted.map(order => toDayNumber(order.created_at))));
+    const gaps = days.slice(1).map((day, index) => day - days[index]);
+
+    return {
+      productId: latest.product_id,
+      productName: latest.product_name,
+      unit: latest.unit,
+      orderCount: sorted.length,
+      typicalQuantity: Math.round(median(sorted.map(order => Number(order.quantity) || 0))),
+      lastOrderedAt: latest.created_at,
+      daysSinceLastOrder: Math.max(today - days[days.length - 1], 0),
+      typicalIntervalDays: days.length >= MIN_ORDER_DAYS_FOR_INTERVAL ? Math.round(median(gaps)) : null,
+    };
+  });
+}
+
+// Products the dealer orders again and again, most often first
+export function getFrequentlyOrdered(stats: ProductOrderStats[], limit = 4): ProductOrderStats[] {
+  return stats
+    .filter(product => product.orderCount >= 2)
+    .sort((a, b) => b.orderCount - a.orderCount || a.daysSinceLastOrder - b.daysSinceLastOrder)
+    .slice(0, limit);
+}
+
+// Products whose usual reorder gap has (nearly) passed, most overdue first
+export function getDueForReorder(stats: ProductOrderStats[], limit = 4): ProductOrderStats[] {
+  return stats
+    .filter(product => {
+      if (!product.typicalIntervalDays) return false;
+      const ratio = product.daysSinceLastOrder / product.typicalIntervalDays;
+      return ratio >= DUE_FROM && ratio <= DUE_UNTIL;
+    })
+    .sort((a, b) =>
+      b.daysSinceLastOrder / b.typicalIntervalDays! - a.daysSinceLastOrder / a.typicalIntervalDays!
+    )
+    .slice(0, limit);
+}
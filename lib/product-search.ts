@@ -0,0 +1,182 @@
+import type { Product } from '@/lib/api/catalog';
+
+/**
+ * Fuzzy search over a price chart. Every query word has to match some word of
+ * the product's name, category, unit or description, either exactly, as a
+ * prefix, as a substring or within a small number of typos. Matches in the
+ * name count for more than matches in the description.
+ *
+ * Query words are scored once against the set of distinct words in the index
+ * rather than once per product, which keeps a search over several hundred
+ * products well under a frame.
+ */
+
+type SearchField = 'name' | 'category' | 'unit' | 'description';
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  category: 2,
+  unit: 1.5,
+  description: 1,
+};
+
+const EXACT_SCORE = 1;
+const PREFIX_SCORE = 0.85;
+const SUBSTRING_SCORE = 0.6;
+const TYPO_SCORE = 0.7;
+// Taken off the typo score for each edit
+const TYPO_PENALTY = 0.15;
+
+// Bonus when the whole query matches the start of, or appears in, the product name
+const NAME_PREFIX_BONUS = 2;
+const NAME_PHRASE_BONUS = 1;
+
+interface IndexedProduct {
+  product: Product;
+  name: string;
+  // Best field weight for each distinct word of the product
+  words: Map<string, number>;
+}
+
+export interface ProductSearchIndex {
+  entries: IndexedProduct[];
+  // Every distinct word across the index
+  vocabulary: string[];
+}
+
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function tokenize(text: string): string[] {
+  const normalized = normalizeSearchText(text);
+  return normalized ? normalized.split(' ') : [];
+}
+
+// Short words are easy to mistype into other short words, so they get fewer typos
+function maxTypos(word: string) {
+  if (word.length <= 3) return 0;
+  if (word.length <= 7) return 1;
+  return 2;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus swapped neighbours),
+ * giving up as soon as it must exceed `max`.
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+// How well one query word matches one indexed word, from 0 (not at all) to 1
+function scoreWord(queryWord: string, word: string): number {
+  if (word === queryWord) return EXACT_SCORE;
+  if (word.startsWith(queryWord)) return PREFIX_SCORE;
+  if (queryWord.length >= 3 && word.includes(queryWord)) return SUBSTRING_SCORE;
+
+  const typos = maxTypos(queryWord);
+  if (typos === 0) return 0;
+
+  const distance = editDistance(queryWord, word, typos);
+  if (distance <= typos) return TYPO_SCORE - TYPO_PENALTY * distance;
+
+  // A typo in a word that is still being typed, e.g. "cemnet" for "cement 43 grade"
+  if (word.length > queryWord.length) {
+    const prefixDistance = editDistance(queryWord, word.slice(0, queryWord.length), typos);
+    if (prefixDistance <= typos) return (TYPO_SCORE - TYPO_PENALTY * prefixDistance) * PREFIX_SCORE;
+  }
+  return 0;
+}
+
+export function buildProductSearchIndex(products: Product[]): ProductSearchIndex {
+  const vocabulary = new Set<string>();
+
+  const entries = products.map(product => {
+    const words = new Map<string, number>();
+    (Object.keys(FIELD_WEIGHTS) as SearchField[]).forEach(field => {
+      tokenize(product[field] || '').forEach(word => {
+        words.set(word, Math.max(words.get(word) || 0, FIELD_WEIGHTS[field]));
+        vocabulary.add(word);
+      });
+    });
+    return { product, name: normalizeSearchText(product.name), words };
+  });
+
+  return { entries, vocabulary: Array.from(vocabulary) };
+}
+
+/**
+ * Products matching every word of `query`, best match first. An empty query
+ * returns every product in index order.
+ */
+export function searchProducts(index: ProductSearchIndex, query: string, limit?: number): Product[] {
+  const queryWords = Array.from(new Set(tokenize(query)));
+  if (queryWords.length === 0) {
+    return index.entries.slice(0, limit).map(entry => entry.product);
+  }
+
+  // Score each query word against the vocabulary once, keeping only the words it matches
+  const wordScores = queryWords.map(queryWord => {
+    const scores = new Map<string, number>();
+    index.vocabulary.forEach(word => {
+      const score = scoreWord(queryWord, word);
+      if (score > 0) scores.set(word, score);
+    });
+    return scores;
+  });
+
+  const phrase = queryWords.join(' ');
+  const results: { product: Product; score: number }[] = [];
+
+  index.entries.forEach(entry => {
+    let total = 0;
+    for (const scores of wordScores) {
+      let best = 0;
+      entry.words.forEach((weight, word) => {
+        const score = scores.get(word);
+        if (score) best = Math.max(best, score * weight);
+      });
+      if (best === 0) return;
+      total += best;
+    }
+
+    if (entry.name.startsWith(phrase)) {
+      total += NAME_PREFIX_BONUS;
+    } else if (entry.name.includes(phrase)) {
+      total += NAME_PHRASE_BONUS;
+    }
+    results.push({ product: entry.product, score: total });
+  });
+
+  return results
+    .sort((a, b) => b.score - a.score || a.product.name.localeCompare(b.product.name))
+    .slice(0, limit)
+    .map(result => result.product);
+}
@@ -0,0 +1,155 @@
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import * as Device from 'expo-device';
+import Constants from 'expo-constants';
+import type { IncomingPush } from '@/types/notifications';
+
+type PushListener = (push: IncomingPush) => void;
+
+// Device-side half of push delivery: getting a token the backend can send to,
+// and hearing about pushes as they arrive or are tapped
+export interface PushService {
+  name: string;
+  // Resolves to null when the device cannot receive pushes or permission was refused
+  register: () => Promise<string | null>;
+  addReceivedListener: (listener: PushListener) => () => void;
+  addOpenedListener: (listener: PushListener) => () => void;
+}
+
+// In-memory stand-in used on web, in development and in tests
+export interface LocalPushService extends PushService {
+  deliver: (push: IncomingPush, options?: { opened?: boolean }) => void;
+}
+
+function toIncomingPush(content: Notifications.NotificationContent): IncomingPush {
+  return {
+    title: content.title || '',
+    body: content.body || '',
+    data: (content.data || {}) as IncomingPush['data'],
+  };
+}
+
+export function createExpoPushService(): PushService {
+  // Pushes that arrive while the app is open are still shown as a banner
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowAlert: true,
+      shouldPlaySound: false,
+      shouldSetBadge: true,
+    }),
+  });
+
+  return {
+    name: 'expo',
+    register: async () => {
+      if (!Device.isDevice) {
+        console.log('Push notifications need a physical device');
+        return null;
+      }
+
+      if (Platform.OS === 'android') {
+        await Notifications.setNotificationChannelAsync('default', {
+          name: 'default',
+          importance: Notifications.AndroidImportance.DEFAULT,
+        });
+      }
+
+      const { status: existingStatus } = await Notifications.getPermissionsAsync();
+      const { status } = existingStatus === 'granted'
+        ? { status: existingStatus }
+        : await Notifications.requestPermissionsAsync();
+      if (status !== 'granted') {
+        console.log('Push notification permission not granted');
+        return null;
+      }
+
+      const projectId = Constants.expoConfig?.extra?.eas?.projectId;
+      const { data: token } = await Notifications.getExpoPushTokenAsync({ projectId });
+      return token;
+    },
+    addReceivedListener: listener => {
+      const subscription = Notifications.addNotificationReceivedListener(notification =>
+        listener(toIncomingPush(notification.request.content))
+      );
+      return () => subscription.remove();
+    },
+    addOpenedListener: listener => {
+      const subscription = Notifications.addNotificationResponseReceivedListener(response =>
+        listener(toIncomingPush(response.notification.request.content))
+      );
+      return () => subscription.remove();
+    },
+  };
+}
+
+export function createLocalPushService(): LocalPushService {
+  const received = new Set<PushListener>();
+  const opened = new Set<PushListener>();
+  const token = `local-push-token:${Math.random().toString(36).slice(2)}`;
+
+  return {
+    name: 'local',
+    register: async () => token,
+    addReceivedListener: listener => {
+      received.add(listener);
+      return () => received.delete(listener);
+    },
+    addOpenedListener: listener => {
+      opened.add(listener);
+      return () => opened.delete(listener);
+    },
+    deliver: (push, options = {}) => {
+      console.log('Delivering local push:', push.title);
+      received.forEach(listener => listener(push));
+      if (options.opened) {
+        opened.forEach(listener => listener(push));
+      }
+    },
+  };
+}
+
+let pushService: PushService | null = null;
+
+// Token this device last registered with the backend. Persisted so it can still be
+// unregistered when the app starts with a session that has already expired.
+const DEVICE_TOKEN_KEY = 'push_device_token';
+
+/**
+ * Expo's push service on native devices. Set EXPO_PUBLIC_PUSH_SERVICE=local to
+ * use the in-memory stand-in instead; web always uses it since Expo push
+ * tokens are not available there.
+ */
+export function getPushService(): PushService {
+  if (!pushService) {
+    const useLocal = Platform.OS === 'web' || process.env.EXPO_PUBLIC_PUSH_SERVICE === 'local';
+    pushService = useLocal ? createLocalPushService() : createExpoPushService();
+  }
+  return pushService;
+}
+
+// Swap the push service, e.g. for a LocalPushService in tests
+export function setPushService(service: PushService | null) {
+  pushService = service;
+}
+
+export async function getDeviceToken(): Promise<string | null> {
+  try {
+    return await AsyncStorage.getItem(DEVICE_TOKEN_KEY);
+  } catch (error) {
+    console.error('Error reading device push token:', error);
+    return null;
+  }
+}
+
+export async function setDeviceToken(token: string | null): Promise<void> {
+  try {
+    if (token) {
+      await AsyncStorage.setItem(DEVICE_TOKEN_KEY, token);
+    } else {
+      await AsyncStorage.removeItem(DEVICE_TOKEN_KEY);
+    }
+  } catch (error) {
+    console.error('Error saving device push token:', error);
+  }
+}
@@ -0,0 +1,183 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Every cached entry lives under this prefix so it can be found and cleared as a group
+const STORAGE_PREFIX = 'query:';
+
+// Per-user data stored without a user id: caches written by older app versions,
+// plus the persisted order filters which can name the previous dealer's products
+const UNSCOPED_USER_KEYS = [
+  'orders_cache',
+  'orders_last_fetch',
+  'finance_cache',
+  'finance_last_fetch',
+  'profile_cache',
+  'profile_last_fetch',
+  'products_cache',
+  'dealer_details_cache',
+  'last_fetch_timestamp',
+  'orders_filters',
+];
+
+// Default time before cached data is revalidated (5 minutes)
+export const DEFAULT_STALE_TIME = 5 * 60 * 1000;
+
+export type QueryResource =
+  | 'dealer-details'
+  | 'price-chart-products'
+  | 'favourite-products'
+  | 'orders'
+  | 'ordered-products'
+  | 'finance'
+  | 'credit-status'
+  | 'payment-reports'
+  | 'profile'
+  | 'notifications'
+  | 'notification-preferences';
+
+export interface QueryKey {
+  userId: string;
+  resource: QueryResource;
+  // Anything else that changes the result, e.g. filters or a price chart id
+  params?: unknown;
+}
+
+export interface CacheEntry<T> {
+  data: T;
+  updatedAt: number;
+}
+
+type Listener = () => void;
+
+const memoryCache = new Map<string, CacheEntry<unknown>>();
+const listeners = new Map<string, Set<Listener>>();
+
+// Bumped on every purge so fetches started before it cannot write their results back
+let generation = 0;
+
+export function getCacheGeneration(): number {
+  return generation;
+}
+
+export function serializeQueryKey({ userId, resource, params }: QueryKey): string {
+  const suffix = params === undefined ? '' : `:${JSON.stringify(params)}`;
+  return `${STORAGE_PREFIX}${userId}:${resource}${suffix}`;
+}
+
+function matchesResource(storageKey: string, resource: QueryResource): boolean {
+  const withoutPrefix = storageKey.slice(STORAGE_PREFIX.length);
+  const rest = withoutPrefix.slice(withoutPrefix.indexOf(':') + 1);
+  return rest === resource || rest.startsWith(`${resource}:`);
+}
+
+function notify(storageKey: string) {
+  listeners.get(storageKey)?.forEach(listener => listener());
+}
+
+export function isStale(entry: CacheEntry<unknown> | null, staleTime = DEFAULT_STALE_TIME): boolean {
+  return !entry || Date.now() - entry.updatedAt >= staleTime;
+}
+
+export async function getQueryData<T>(key: QueryKey): Promise<CacheEntry<T> | null> {
+  const storageKey = serializeQueryKey(key);
+  const inMemory = memoryCache.get(storageKey);
+  if (inMemory) {
+    return inMemory as CacheEntry<T>;
+  }
+
+  try {
+    const stored = await AsyncStorage.getItem(storageKey);
+    if (!stored) return null;
+
+    const entry: CacheEntry<T> = JSON.parse(stored);
+    memoryCache.set(storageKey, entry);
+    return entry;
+  } catch (error) {
+    console.error('Error reading query cache:', error);
+    return null;
+  }
+}
+
+export async function setQueryData<T>(key: QueryKey, data: T): Promise<void> {
+  const storageKey = serializeQueryKey(key);
+  const entry: CacheEntry<T> = { data, updatedAt: Date.now() };
+  memoryCache.set(storageKey, entry);
+  notify(storageKey);
+
+  try {
+    await AsyncStorage.setItem(storageKey, JSON.stringify(entry));
+  } catch (error) {
+    console.error('Error writing query cache:', error);
+  }
+}
+
+export function subscribeToQuery(key: QueryKey, listener: Listener): () => void {
+  const storageKey = serializeQueryKey(key);
+  const keyListeners = listeners.get(storageKey) ?? new Set<Listener>();
+  keyListeners.add(listener);
+  listeners.set(storageKey, keyListeners);
+
+  return () => {
+    keyListeners.delete(listener);
+    if (keyListeners.size === 0) {
+      listeners.delete(storageKey);
+    }
+  };
+}
+
+/**
+ * Marks every cached entry for the given resources as stale, for all users and
+ * params. The data is kept so screens can keep showing it while they refetch.
+ */
+export async function invalidateQueries(...resources: QueryResource[]): Promise<void> {
+  const matches = (storageKey: string) => resources.some(resource => matchesResource(storageKey, resource));
+
+  try {
+    const storedKeys = (await AsyncStorage.getAllKeys()).filter(
+      storageKey => storageKey.startsWith(STORAGE_PREFIX) && matches(storageKey)
+    );
+
+    const storedEntries = await AsyncStorage.multiGet(storedKeys);
+    const staleEntries: [string, string][] = [];
+    storedEntries.forEach(([storageKey, value]) => {
+      if (!value) return;
+      const entry: CacheEntry<unknown> = JSON.parse(value);
+      staleEntries.push([storageKey, JSON.stringify({ ...entry, updatedAt: 0 })]);
+    });
+    await AsyncStorage.multiSet(staleEntries);
+  } catch (error) {
+    console.error('Error invalidating query cache:', error);
+  }
+
+  memoryCache.forEach((entry, storageKey) => {
+    if (matches(storageKey)) {
+      memoryCache.set(storageKey, { ...entry, updatedAt: 0 });
+    }
+  });
+
+  // Mounted screens refetch when notified of a stale entry
+  listeners.forEach((_, storageKey) => {
+    if (matches(storageKey)) {
+      notify(storageKey);
+    }
+  });
+}
+
+/**
+ * Removes every cached entry for every user, along with the unscoped keys above.
+ * Listeners are not notified, so mounted screens do not refetch for a user who
+ * has just signed out.
+ */
+export async function clearQueryCache(): Promise<void> {
+  generation += 1;
+  memoryCache.clear();
+
+  try {
+    const storedKeys = (await AsyncStorage.getAllKeys()).filter(
+      storageKey => storageKey.startsWith(STORAGE_PREFIX) || UNSCOPED_USER_KEYS.includes(storageKey)
+    );
+    await AsyncStorage.multiRemove(storedKeys);
+    console.log(`Cleared ${storedKeys.length} cached entries`);
+  } catch (error) {
+    console.error('Error clearing query cache:', error);
+  }
+}
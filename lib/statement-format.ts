@@ -0,0 +1,31 @@
+import type { DealerBalance } from '@/lib/api/finance';
+import type { StatementLine } from '@/lib/finance-statement';
+
+// Formatting shared by the CSV, HTML and PDF statement exports
+
+export type StatementAccount = Pick<DealerBalance, 'dealer_name' | 'dealer_code'>;
+
+export const COMPANY_NAME = 'Sushma Dealers';
+
+export function formatAmount(amount: number) {
+  return amount.toFixed(2);
+}
+
+export function formatCurrency(amount: number) {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR'
+  }).format(amount);
+}
+
+export function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+export function formatType(line: StatementLine) {
+  return line.transaction.transaction_type.replace('_', ' ').replace(/^\w/, letter => letter.toUpperCase());
+}
@@ -0,0 +1,8 @@
+import type { StatementPeriod } from '@/lib/finance-statement';
+import type { StatementAccount } from '@/lib/statement-format';
+
+// Native builds render the PDF with expo-print instead; the browser version is in
+// statement-pdf.web.ts, which keeps jsPDF out of the native bundle
+export async function statementToPdf(_period: StatementPeriod, _account: StatementAccount): Promise<Blob> {
+  throw new Error('Statement PDFs are only built in the browser');
+}
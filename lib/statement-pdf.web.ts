@@ -0,0 +1,80 @@
+import { jsPDF } from 'jspdf';
+import { autoTable } from 'jspdf-autotable';
+import type { StatementPeriod } from '@/lib/finance-statement';
+import { type StatementAccount, COMPANY_NAME, formatDate, formatType } from '@/lib/statement-format';
+
+// jsPDF's standard fonts have no rupee sign, so PDF amounts are written as "Rs."
+function formatPdfAmount(amount: number) {
+  return `Rs. ${new Intl.NumberFormat('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(amount)}`;
+}
+
+// Builds the statement PDF in the browser, where expo-print cannot produce a file
+export async function statementToPdf(period: StatementPeriod, account: StatementAccount): Promise<Blob> {
+  const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 40;
+
+  doc.setFillColor(79, 70, 229);
+  doc.roundedRect(margin, margin, pageWidth - margin * 2, 76, 8, 8, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.text(COMPANY_NAME, margin + 16, margin + 28);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text(`Account statement - ${account.dealer_name} (${account.dealer_code})`, margin + 16, margin + 48);
+  doc.text(`${formatDate(period.from)} - ${formatDate(period.to)}`, margin + 16, margin + 63);
+
+  autoTable(doc, {
+    startY: margin + 92,
+    margin: { left: margin, right: margin },
+    theme: 'grid',
+    styles: { fontSize: 9, textColor: [15, 23, 42], lineColor: [226, 232, 240] },
+    headStyles: { fillColor: [248, 250, 252], textColor: [100, 116, 139], fontSize: 8 },
+    head: [['Opening balance', 'Debits', 'Credits', 'Closing balance']],
+    body: [[
+      formatPdfAmount(period.openingBalance),
+      formatPdfAmount(period.totalDebits),
+      formatPdfAmount(period.totalCredits),
+      formatPdfAmount(period.closingBalance),
+    ]],
+  });
+
+  const amountColumn = { halign: 'right' as const };
+  autoTable(doc, {
+    margin: { left: margin, right: margin },
+    theme: 'striped',
+    styles: { fontSize: 8, textColor: [15, 23, 42] },
+    headStyles: { fillColor: [79, 70, 229], textColor: [255, 255, 255] },
+    footStyles: { fillColor: [241, 245, 249], textColor: [15, 23, 42], fontStyle: 'bold' },
+    columnStyles: { 3: amountColumn, 4: amountColumn, 5: amountColumn },
+    head: [['Date', 'Type', 'Description', 'Debit', 'Credit', 'Balance']],
+    body: [
+      [formatDate(period.from), 'Opening balance', '', '', '', formatPdfAmount(period.openingBalance)],
+      ...period.lines.map(line => [
+        formatDate(line.transaction.transaction_date),
+        formatType(line),
+        line.transaction.description,
+        line.debit ? formatPdfAmount(line.debit) : '',
+        line.credit ? formatPdfAmount(line.credit) : '',
+        formatPdfAmount(line.balance),
+      ]),
+    ],
+    foot: [[
+      formatDate(period.to),
+      'Closing balance',
+      '',
+      formatPdfAmount(period.totalDebits),
+      formatPdfAmount(period.totalCredits),
+      formatPdfAmount(period.closingBalance),
+    ]],
+    didDrawPage: () => {
+      const pageHeight = doc.internal.pageSize.getHeight();
+      doc.setFontSize(8);
+      doc.setTextColor(148, 163, 184);
+      doc.text(`Generated ${formatDate(new Date().toISOString())}`, margin, pageHeight - 20);
+    },
+  });
+
+  return doc.output('blob');
+}
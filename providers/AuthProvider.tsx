@@ -1,6 +1,9 @@
-import { createContext, useContext, useEffect, useState } from 'react';
+import { createContext, useContext, useEffect, useRef, useState } from 'react';
 import { Session } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase';
+import { clearQueryCache } from '@/lib/query-cache';
+import { clearPushToken } from '@/lib/api/notifications';
+import { getDeviceToken, setDeviceToken } from '@/lib/push-service';
 import { Database } from '@/types/supabase';
 
 type Profile = Database['public']['Tables']['profiles']['Row'];
@@ -30,11 +33,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [session, setSession] = useState<Session | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  // The user whose data is currently allowed to sit in the cache
+  const cachedUserId = useRef<string | null>(null);
 
   useEffect(() => {
     // Check for existing session
     supabase.auth.getSession().then(({ data: { session } }) => {
       setSession(session);
+      cachedUserId.current = session?.user?.id ?? null;
       if (session?.user) {
         fetchProfile(session.user.id);
       } else {
@@ -48,8 +54,17 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     } = supabase.auth.onAuthStateChange(async (_event, session) => {
       setSession(session);
       if (session?.user) {
+        // A different account signed in on this device without signing out first
+        if (cachedUserId.current && cachedUserId.current !== session.user.id) {
+          await clearQueryCache();
+        }
+        cachedUserId.current = session.user.id;
         await fetchProfile(session.user.id);
       } else {
+        // Signed out, including when the session expired and could not be refreshed
+        await unregisterDevice();
+        cachedUserId.current = null;
+        await clearQueryCache();
         setProfile(null);
         setIsLoading(false);
       }
@@ -60,6 +75,17 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     };
   }, []);
 
+  // Stops pushes to this device. Does not need a session, so it also works once one has expired.
+  async function unregisterDevice() {
+    const deviceToken = await getDeviceToken();
+    if (!deviceToken) return;
+
+    await setDeviceToken(null);
+    await clearPushToken(deviceToken).catch(error =>
+      console.error('Error clearing push token:', error)
+    );
+  }
+
   async function fetchProfile(userId: string) {
     try {
       const { data, error } = await supabase
@@ -184,10 +210,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   const signOut = async () => {
+    await unregisterDevice();
+
     try {
       // Clear local state first
       setSession(null);
       setProfile(null);
+      cachedUserId.current = null;
+      await clearQueryCache();
       
       // Sign out from Supabase
       const { error } = await supabase.auth.signOut();
@@ -197,6 +227,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       // Clear local state even if there's an error
       setSession(null);
       setProfile(null);
+      await clearQueryCache();
     }
   };
 
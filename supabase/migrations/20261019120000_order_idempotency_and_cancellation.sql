@@ -0,0 +1,10 @@
+-- Columns the app writes when placing and canceling orders
+alter table public.orders
+  add column if not exists client_request_id text,
+  add column if not exists cancellation_reason text;
+
+-- Orders queued offline are retried with the same client_request_id. The app
+-- treats a unique violation (23505) on this column as "already placed" and
+-- loads the existing row, so without this index a retry creates a duplicate.
+create unique index if not exists orders_client_request_id_key
+  on public.orders (client_request_id);
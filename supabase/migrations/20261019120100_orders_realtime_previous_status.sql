@@ -0,0 +1,15 @@
+-- Realtime only sends the previous row of an UPDATE when the table logs full
+-- rows. The app uses the old status to show "your order was completed/canceled"
+-- banners; without this it can only rely on statuses it has already loaded.
+alter table public.orders replica identity full;
+
+-- Realtime must also be publishing the table
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'orders'
+  ) then
+    alter publication supabase_realtime add table public.orders;
+  end if;
+end $$;
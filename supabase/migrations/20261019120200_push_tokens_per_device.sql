@@ -0,0 +1,70 @@
+-- One row per device instead of a single profiles.push_token, so signing in on
+-- a second device no longer takes pushes away from the first one.
+create table if not exists public.push_tokens (
+  token text primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  platform text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists push_tokens_user_id_idx on public.push_tokens (user_id);
+
+alter table public.push_tokens enable row level security;
+
+drop policy if exists "Users read their own push tokens" on public.push_tokens;
+create policy "Users read their own push tokens"
+  on public.push_tokens for select
+  using (auth.uid() = user_id);
+
+-- Carry over tokens registered before this migration
+insert into public.push_tokens (token, user_id)
+select push_token, user_id from public.profiles
+where push_token is not null
+on conflict (token) do nothing;
+
+-- profiles.push_token is no longer written by the app; push senders should
+-- read public.push_tokens instead.
+comment on column public.profiles.push_token is 'Deprecated: use public.push_tokens';
+
+-- A device token belongs to whoever signed in on that device last, so
+-- registering moves it over from any previous account.
+create or replace function public.register_push_token(p_token text, p_platform text default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in';
+  end if;
+  if coalesce(p_token, '') = '' then
+    raise exception 'Push token is required';
+  end if;
+
+  insert into public.push_tokens (token, user_id, platform)
+  values (p_token, auth.uid(), p_platform)
+  on conflict (token) do update
+    set user_id = excluded.user_id,
+        platform = excluded.platform,
+        updated_at = now();
+end;
+$$;
+
+-- Callable without a session: when a session expires the device can no longer
+-- authenticate, but it still holds its token and must stop receiving pushes.
+-- Knowing the token is what proves the caller is that device.
+create or replace function public.unregister_push_token(p_token text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from public.push_tokens where token = p_token;
+$$;
+
+revoke all on function public.register_push_token(text, text) from public;
+revoke all on function public.unregister_push_token(text) from public;
+grant execute on function public.register_push_token(text, text) to authenticated;
+grant execute on function public.unregister_push_token(text) to anon, authenticated;
@@ -0,0 +1,121 @@
+-- Orders are placed through place_dealer_orders so the credit limit is enforced
+-- by the database rather than by whichever client is inserting.
+--
+-- The dealer row is locked for the length of the call, so two devices submitting
+-- at once are checked one after the other and the second sees the first's orders.
+
+create or replace function public.place_dealer_orders(p_dealer_id uuid, p_lines jsonb)
+returns table (line_index integer, order_id text, error text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_dealer public.dealers%rowtype;
+  v_balance numeric;
+  v_unposted numeric;
+  v_available numeric;
+  v_total numeric;
+  v_line jsonb;
+  v_index integer;
+  v_order public.orders%rowtype;
+begin
+  select * into v_dealer
+  from public.dealers
+  where id = p_dealer_id and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Dealer not found';
+  end if;
+
+  if jsonb_typeof(p_lines) is distinct from 'array' or jsonb_array_length(p_lines) = 0 then
+    raise exception 'At least one order line is required';
+  end if;
+
+  if v_dealer.credit_limit is not null and v_dealer.credit_limit_policy = 'block' then
+    -- Lines retried with a client_request_id that was already placed are part of
+    -- the balance, so they are not counted again
+    select coalesce(sum((line->>'quantity')::numeric * (line->>'price_per_unit')::numeric), 0)
+    into v_total
+    from jsonb_array_elements(p_lines) as line
+    where line->>'client_request_id' is null
+       or not exists (
+         select 1 from public.orders o where o.client_request_id = line->>'client_request_id'
+       );
+
+    select coalesce(max(current_balance), 0) into v_balance
+    from public.dealer_balances
+    where dealer_id = p_dealer_id;
+
+    -- Processing orders that have not reached the ledger yet still use up credit
+    select coalesce(sum(o.total_price), 0) into v_unposted
+    from public.orders o
+    where o.dealer_id = p_dealer_id
+      and o.status = 'processing'
+      and not exists (
+        select 1 from public.dealer_finance f
+        where f.dealer_id = p_dealer_id
+          and f.transaction_type = 'order'
+          and f.reference_id = o.id
+      );
+
+    v_available := v_dealer.credit_limit - v_balance - v_unposted;
+
+    if v_total > v_available then
+      raise exception 'credit_limit_exceeded'
+        using detail = json_build_object(
+          'current_balance', v_balance + v_unposted,
+          'credit_limit', v_dealer.credit_limit,
+          'available_credit', v_available,
+          'order_total', v_total
+        )::text;
+    end if;
+  end if;
+
+  -- Each line is inserted on its own, so one rejected line does not stop the others
+  for v_line, v_index in
+    select value, (ordinality - 1)::integer from jsonb_array_elements(p_lines) with ordinality
+  loop
+    begin
+      v_order := jsonb_populate_record(null::public.orders, v_line);
+
+      insert into public.orders (
+        dealer_id, salesman_id, product_id, product_name, unit, quantity,
+        price_chart_id, price_per_unit, total_price, status, notes, client_request_id
+      )
+      values (
+        p_dealer_id, v_dealer.salesman_id, v_order.product_id, v_order.product_name, v_order.unit,
+        v_order.quantity, v_order.price_chart_id, v_order.price_per_unit,
+        v_order.quantity * v_order.price_per_unit, 'processing', v_order.notes, v_order.client_request_id
+      )
+      returning id into order_id;
+
+      line_index := v_index;
+      error := null;
+      return next;
+    exception
+      -- Already placed by an earlier attempt whose response never reached the device
+      when unique_violation then
+        select o.id into order_id
+        from public.orders o
+        where o.dealer_id = p_dealer_id and o.client_request_id = v_order.client_request_id;
+
+        line_index := v_index;
+        error := case when order_id is null then sqlerrm end;
+        return next;
+      when others then
+        line_index := v_index;
+        order_id := null;
+        error := sqlerrm;
+        return next;
+    end;
+  end loop;
+end;
+$$;
+
+revoke all on function public.place_dealer_orders(uuid, jsonb) from public;
+grant execute on function public.place_dealer_orders(uuid, jsonb) to authenticated;
+
+-- Without this any client could skip the function and insert directly
+revoke insert on public.orders from anon, authenticated;
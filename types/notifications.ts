@@ -0,0 +1,29 @@
+import { Database } from '@/types/supabase';
+
+export type NotificationRow = Database['public']['Tables']['notifications']['Row'];
+
+export type NotificationCategory = NotificationRow['category'];
+
+// Stored as JSON on the dealer's profile; the backend checks it before sending a push
+export type NotificationPreferences = Record<NotificationCategory, boolean>;
+
+// Extra fields the backend attaches so a notification can link to what it is about
+export interface NotificationData {
+  order_id?: string;
+  reference_id?: string;
+  price_chart_id?: string;
+}
+
+export interface AppNotification extends Omit<NotificationRow, 'data'> {
+  data: NotificationData | null;
+}
+
+// Payload of a push as delivered to the device
+export interface IncomingPush {
+  title: string;
+  body: string;
+  data: NotificationData & {
+    category?: NotificationCategory;
+    notification_id?: string;
+  };
+}
@@ -2,11 +2,11 @@ import { Database } from '@/types/supabase';
 
 // Base types from database
 export type Dealer = Database['public']['Tables']['dealers']['Row'];
-export type PriceChart = Database['public']['Tables']['price_charts']['Row'];
-export type PriceChartItem = Database['public']['Tables']['price_chart_items']['Row'];
-export type Product = Database['public']['Tables']['products']['Row'];
 export type Order = Database['public']['Tables']['orders']['Row'];
 
+// Whether orders over the dealer's credit limit are only warned about or refused outright
+export type CreditLimitPolicy = Dealer['credit_limit_policy'];
+
 // Component interfaces
 export interface DealerDetails {
   id: string;
@@ -20,58 +20,88 @@ export interface DealerDetails {
   } | null;
 }
 
-export interface PriceChartItemWithProduct {
-  id: string;
+// Order creation interface
+export interface CreateOrderData {
+  dealer_id: string;
+  product_id: string;
+  product_name: string;
+  unit: string;
+  quantity: number;
+  price_chart_id: string | null;
+  price_per_unit: number;
+  total_price: number;
+  status: 'processing' | 'completed' | 'canceled';
+  notes?: string | null;
+  // Idempotency key generated on the device; a retried insert with the same key returns the existing order
+  client_request_id?: string | null;
+}
+
+// Order row with the joins selected by ORDER_DETAIL_SELECT
+export interface OrderWithDetails extends Order {
+  dealer: {
+    id: string;
+    name: string;
+    dealer_code: string;
+  } | null;
+  salesman: {
+    user_id: string;
+    display_name: string | null;
+  } | null;
   product: {
     id: string;
     name: string;
     category: string | null;
     unit: string;
-  };
-  price_per_unit: number;
-  currency: string;
-  effective_date: string;
-  expiry_date: string | null;
-}
-
-// Supabase response interfaces
-export interface SupabaseDealerResponse {
-  id: string;
-  name: string;
-  dealer_code: string;
-  salesman_id: string | null;
-  price_chart_code: string | null;
-  price_charts: {
+  } | null;
+  price_chart: {
     id: string;
     name: string;
     price_chart_code: string;
   } | null;
 }
 
-export interface SupabasePriceChartItemResponse {
+// Orders list filters, applied as query filters by fetchDealerOrders
+export interface OrderFilters {
+  statuses?: Order['status'][];
+  dateFrom?: string | null; // YYYY-MM-DD, inclusive
+  dateTo?: string | null; // YYYY-MM-DD, inclusive
+  productId?: string | null;
+  productName?: string | null;
+  minAmount?: number | null;
+  maxAmount?: number | null;
+}
+
+// Keyset pagination over the orders list, newest first
+export interface OrderCursor {
+  created_at: string;
   id: string;
-  product: {
-    id: string;
-    name: string;
-    category: string | null;
-    unit: string;
-  };
-  price_per_unit: number;
-  currency: string;
-  effective_date: string;
-  expiry_date: string | null;
 }
 
-// Order creation interface
-export interface CreateOrderData {
-  dealer_id: string;
-  product_id: string;
-  product_name: string;
-  unit: string;
-  quantity: number;
-  price_chart_id: string | null;
-  price_per_unit: number;
-  total_price: number;
-  status: 'processing' | 'completed' | 'canceled';
-  notes?: string | null;
-} 
\ No newline at end of file
+export interface OrderPage {
+  orders: Order[];
+  nextCursor: OrderCursor | null;
+}
+
+export interface OrderedProduct {
+  id: string;
+  name: string;
+}
+
+// Realtime insert or update of one of the dealer's orders
+export interface OrderChange {
+  type: 'INSERT' | 'UPDATE';
+  order: Order;
+  previousStatus: Order['status'] | null;
+}
+
+// Batch order creation result
+export interface FailedOrderLine {
+  index: number;
+  line: CreateOrderData;
+  error: string;
+}
+
+export interface OrderBatchResult {
+  created: Order[];
+  failed: FailedOrderLine[];
+}
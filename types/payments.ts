@@ -0,0 +1,21 @@
+import { Database } from '@/types/supabase';
+
+export type PaymentReport = Database['public']['Tables']['payment_reports']['Row'];
+
+export type PaymentMode = PaymentReport['mode'];
+
+export type PaymentReportStatus = PaymentReport['status'];
+
+// What the dealer fills in when reporting a payment
+export interface ReportPaymentData {
+  amount: number;
+  payment_date: string; // YYYY-MM-DD
+  mode: PaymentMode;
+  reference_number?: string | null;
+}
+
+// Photo of the receipt as returned by the image picker
+export interface ReceiptImage {
+  uri: string;
+  mimeType?: string | null;
+}
@@ -1,4 +1,4 @@
-export type AppRoute = '/' | '/orders' | '/finance' | '/profile' | '/processing';
+export type AppRoute = '/' | '/orders' | '/catalog' | '/finance' | '/profile' | '/processing';
 
 export type NavItem = {
   title: string;
@@ -16,6 +16,8 @@ export interface Database {
           display_name: string | null
           role: string
           status: string
+          push_token: string | null
+          notification_preferences: Json | null
           created_at: string
           updated_at: string
         }
@@ -25,6 +27,8 @@ export interface Database {
           display_name?: string | null
           role?: string
           status?: string
+          push_token?: string | null
+          notification_preferences?: Json | null
           created_at?: string
           updated_at?: string
         }
@@ -34,6 +38,8 @@ export interface Database {
           display_name?: string | null
           role?: string
           status?: string
+          push_token?: string | null
+          notification_preferences?: Json | null
           created_at?: string
           updated_at?: string
         }
@@ -45,7 +51,9 @@ export interface Database {
           name: string
           dealer_code: string
           salesman_id: string | null
-          price_chart_id: string | null
+          price_chart_code: string | null
+          credit_limit: number | null
+          credit_limit_policy: 'warn' | 'block'
           created_at: string
           updated_at: string
         }
@@ -84,6 +92,51 @@ export interface Database {
           updated_at: string
         }
       }
+      notifications: {
+        Row: {
+          id: string
+          user_id: string
+          category: 'order_status' | 'payment' | 'price_chart'
+          title: string
+          body: string
+          data: Json | null
+          read_at: string | null
+          created_at: string
+        }
+      }
+      payment_reports: {
+        Row: {
+          id: string
+          dealer_id: string
+          reported_by: string
+          amount: number
+          payment_date: string
+          mode: 'cash' | 'cheque' | 'upi' | 'bank_transfer'
+          reference_number: string | null
+          receipt_path: string | null
+          status: 'pending' | 'approved' | 'rejected'
+          review_notes: string | null
+          reviewed_at: string | null
+          created_at: string
+          updated_at: string
+        }
+      }
+      push_tokens: {
+        Row: {
+          token: string
+          user_id: string
+          platform: string | null
+          created_at: string
+          updated_at: string
+        }
+      }
+      favourite_products: {
+        Row: {
+          dealer_id: string
+          product_id: string
+          created_at: string
+        }
+      }
       orders: {
         Row: {
           id: string
@@ -98,6 +151,8 @@ export interface Database {
           total_price: number
           status: 'processing' | 'completed' | 'canceled'
           notes: string | null
+          cancellation_reason: string | null
+          client_request_id: string | null
           created_at: string
           updated_at: string
         }